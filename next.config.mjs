@@ -1,4 +1,11 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+    experimental: {
+        // Deal cards read their fonts and platform logos from disk at runtime
+        outputFileTracingIncludes: {
+            '/api/cron': ['./src/assets/fonts/**', './src/assets/logos/**']
+        }
+    }
+};
 
 export default nextConfig;
@@ -0,0 +1,6 @@
+import { createOverrideHandlers } from '@/lib/admin';
+
+// Blocked titles are never posted by the cron handler
+export const dynamic = 'force-dynamic';
+
+export const { GET, POST, DELETE } = createOverrideHandlers('blocked_games');
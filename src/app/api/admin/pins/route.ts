@@ -0,0 +1,6 @@
+import { createOverrideHandlers } from '@/lib/admin';
+
+// Pinned titles jump the queue on the next cron run and are removed once posted
+export const dynamic = 'force-dynamic';
+
+export const { GET, POST, DELETE } = createOverrideHandlers('pinned_deals');
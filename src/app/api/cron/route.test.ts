@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/cron/route';
+import { getStorage } from '@/lib/repositories';
+import { startMockServer, type MockServer } from '@/test/mock-server';
+
+// A whole cron run on STORAGE_BACKEND=memory with no Supabase credentials, over the
+// recorded store responses in src/test/fixtures/http (see pipeline.test.ts)
+
+const cron = async (query = '') => {
+    const request = new NextRequest(`http://localhost/api/cron${query}`, { headers: { authorization: 'Bearer secret' } });
+    const response = await GET(request);
+    return { status: response.status, body: await response.json() };
+};
+
+let telegram: MockServer;
+
+beforeEach(async () => {
+    telegram = await startMockServer(() => ({ json: { ok: true, result: { message_id: 7 } } }));
+
+    vi.stubEnv('STORAGE_BACKEND', 'memory');
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', '');
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', '');
+    vi.stubEnv('CRON_SECRET', 'secret');
+    vi.stubEnv('ENABLED_PROVIDERS', 'steam,gog,epic');
+    vi.stubEnv('DISABLED_PUBLISHERS', 'twitter,discord,bluesky,mastodon');
+    vi.stubEnv('DEAL_CARDS', '0');
+    vi.stubEnv('HTTP_MODE', 'replay');
+    vi.stubEnv('HTTP_FIXTURES_DIR', 'src/test/fixtures/http');
+    // Only the Telegram stand-in is reachable
+    const realFetch = fetch;
+    vi.stubGlobal('fetch', (url: string | URL, init?: RequestInit) =>
+        String(url).startsWith(telegram.url) ? realFetch(url, init) : Promise.reject(new Error(`network access: ${url}`)));
+    vi.useFakeTimers({ now: new Date('2026-06-01T12:00:00Z'), toFake: ['Date'] });
+    // The run log comes back in the response body
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    await telegram.close();
+});
+
+describe('cron on the memory backend', () => {
+    it('runs a dry run without Supabase', async () => {
+        const { status, body } = await cron('?dryRun=1');
+
+        expect(status).toBe(200);
+        expect(body.selected.map((s: { game: string }) => s.game)).toEqual(['Alan Wake Remastered']);
+        expect(body.rates).toMatchObject({ source: 'live', TRY: 39.12 });
+        expect(body.logs).toContain('🔔 Wishlist alerts need Supabase');
+    });
+
+    it('posts, records the post in memory and skips the Supabase-only logs', async () => {
+        vi.stubEnv('TELEGRAM_API_URL', telegram.url);
+        vi.stubEnv('TELEGRAM_BOT_TOKEN', 'token');
+        vi.stubEnv('TELEGRAM_CHAT_ID', '-100');
+
+        const { status, body } = await cron();
+
+        expect(status).toBe(200);
+        expect(body.posted).toHaveLength(1);
+        expect(body.posted[0]).toMatchObject({ game: 'Alan Wake Remastered', deliveries: [{ channel: 'telegram', success: true }] });
+        expect(body.logs.join('\n')).not.toMatch(/Delivery log error|Run record error/);
+        expect(telegram.requests.map(r => r.path)).toEqual(['/bottoken/sendPhoto']);
+
+        const { posts } = await getStorage().postedGames.listLatest('tr', 10);
+        expect(posts.map(p => p.game_title)).toEqual(['alan wake remastered']);
+    });
+});
@@ -1,407 +1,627 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getTwitterClient } from '@/lib/twitter';
-import { getSupabaseAdmin } from '@/lib/supabase';
+import { getOptionalSupabaseAdmin } from '@/lib/supabase';
+import { getStorage } from '@/lib/repositories';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Deal } from '@/lib/deals';
+import {
+    collectDeals,
+    fetchDealImage,
+    findRecentPost,
+    getRepostHours,
+    loadRecentPosts,
+    recordPostedGame,
+    toCandidate,
+    type Candidate
+} from '@/lib/pipeline';
+import { formatPrice, formatTweet } from '@/lib/tweet';
+import { describeRates, getExchangeRates, type RateTable } from '@/lib/pricing';
+import { formatScore, rankDeals, type ScoreBreakdown } from '@/lib/scoring';
+import { getCardConfig, getScoringConfig } from '@/lib/config';
+import { classifyDeal, isPostableType } from '@/lib/classifier';
+import { isAuthorized } from '@/lib/auth';
+import { findBlock, findPin, listOverrides, removeOverride } from '@/lib/overrides';
+import { getEnabledPublishers } from '@/lib/publishers';
+import {
+    previewPosts,
+    previewThread,
+    publishThreadToAll,
+    publishToAll,
+    recordDeliveries,
+    type DeliveryResult,
+    type PostImage,
+    type Thread
+} from '@/lib/publishing';
+import { planRun } from '@/lib/schedule';
+import { applyPriceStats, loadPriceStats, savePriceSnapshots } from '@/lib/history';
+import { composeDealCard } from '@/lib/card';
+import { dueAnnouncements, loadPromotions, markAnnounced, syncPromotions } from '@/lib/promotions';
+import { fetchEpicFreeGames, promotionDeal } from '@/lib/providers/epic';
+import { getEnabledProviders } from '@/lib/providers';
+import { sendWishlistAlerts, type AlertResult } from '@/lib/wishlist';
+import { loadEngagementReport, toEngagementModel, type EngagementModel } from '@/lib/engagement';
+import { getEnabledNotifiers } from '@/lib/notifiers';
+import { saveRun, startRun, toProviderStats, type RunStatus } from '@/lib/runs';
+import { formatForMode, parsePostMode, POST_MODES, selectForMode } from '@/lib/formats';
+import { findAccount, getAccount, isDefaultAccount, runWithAccount } from '@/lib/accounts';
 
 // CheapShark + Direct APIs - Fast (under 2 seconds)
 export const dynamic = 'force-dynamic';
 
-const MIN_METACRITIC = 60; // For CheapShark games
-const MIN_GOG_REVIEWS = 500;
-
 // Delay helper to avoid rate limiting
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// Max retry attempts for tweeting
+// Max deals that may fail to post in one run (each attempt posts to every channel)
 const MAX_TWEET_ATTEMPTS = 3;
 
-// Blacklist games that consistently fail (oversized images, duplicate issues)
-const BLACKLISTED_GAMES = [
-    'disco elysium',
-    'wavetale',
-    'skald'  // Posted twice due to name variations
-];
-
-// Fetch current USD/TRY exchange rate
-async function getExchangeRate(): Promise<number> {
-    try {
-        const res = await fetch('https://api.exchangerate-api.com/v4/latest/USD');
-        if (res.ok) {
-            const data = await res.json();
-            return data.rates?.TRY || 35;
+// Store artwork, drawn into a deal card when cards are enabled. Returns no image only
+// when there is neither artwork nor a card; the detail says why. Dry runs don't upload cards.
+async function buildPostImage(
+    game: Deal,
+    rates: RateTable,
+    supabaseAdmin: SupabaseClient | undefined,
+    log: (msg: string) => void,
+    dryRun: boolean
+): Promise<{ image?: PostImage; detail?: string }> {
+    const { image: artwork, status: imgStatus, error: imgError } = await fetchDealImage(game);
+    const imgFailure = imgStatus ? `HTTP ${imgStatus}` : imgError;
+    if (!artwork && game.header_image) log(`⚠️ Image failed for ${game.name} (${imgFailure})`);
+
+    if (getCardConfig().enabled) {
+        try {
+            const card = await composeDealCard(game, rates, artwork, supabaseAdmin, { readOnly: dryRun });
+            log(`🖼️ Card for ${game.name}: ${card.source}`);
+            return { image: card.image };
+        } catch (e) {
+            // Nothing within the size limit - the raw artwork is what composeDealCard refused
+            const message = e instanceof Error ? e.message : String(e);
+            log(`⚠️ Card failed for ${game.name}: ${message}`);
+            return { detail: artwork ? message : imgFailure || 'card render failed' };
         }
-    } catch (e) {
-        console.error('Exchange rate fetch failed:', e);
     }
-    return 35; // Fallback rate
+
+    return artwork ? { image: artwork } : { detail: imgFailure || 'no image' };
 }
 
-// ============ STEAM DEALS ============
-async function fetchSteamDeals(): Promise<any[]> {
-    const deals: any[] = [];
-    const seen = new Set<number>();
+// ============ MAIN HANDLER ============
+// ?dryRun=1 runs the full selection (DB reads, image fetch, post text) but never
+// publishes or writes to Supabase. It returns every candidate with its skip reason.
+// ?mode=top5|weekly|free posts a thread or digest instead of single deals (see formats.ts).
+// ?account=us runs everything for another posting account (see accounts.ts).
+// With STORAGE_BACKEND=memory the run needs no Supabase; the steps that only exist there are skipped.
+async function runCron(request: NextRequest) {
+    const startTime = Date.now();
+    const logs: string[] = [];
+    const log = (msg: string) => {
+        console.log(msg);
+        logs.push(msg);
+    };
+
+    // Every finished run is saved to cron_runs (dry runs excepted)
+    const run = startRun();
+    let runStore: SupabaseClient | null = null;
+    let dryRun = false;
+    const respond = async (status: RunStatus, body: object, reason?: string, init?: ResponseInit) => {
+        if (runStore && !dryRun) {
+            const { error } = await saveRun(runStore, run, status, reason);
+            if (error) console.error('Run record error:', error);
+        }
+        return NextResponse.json(body, init);
+    };
 
     try {
-        const res = await fetch('https://store.steampowered.com/api/featuredcategories?cc=tr', {
-            headers: { 'User-Agent': 'Mozilla/5.0' }
-        });
-        if (res.ok) {
-            const data = await res.json();
-            const allItems = [
-                ...(data.specials?.items || []),
-                ...(data.top_sellers?.items || []),
-                ...(data.new_releases?.items || [])
-            ];
-
-            for (const item of allItems) {
-                if (seen.has(item.id)) continue;
-                seen.add(item.id);
-
-                if (item.discounted && item.discount_percent >= 25) {
-                    deals.push({
-                        id: item.id.toString(),
-                        name: item.name,
-                        discount_percent: item.discount_percent,
-                        final_price: item.final_price / 100,
-                        currency: 'USD', // Steam returns USD even with cc=tr
-                        platform: 'Steam',
-                        url: `https://store.steampowered.com/app/${item.id}`,
-                        header_image: `https://cdn.akamai.steamstatic.com/steam/apps/${item.id}/header.jpg`
-                    });
-                }
-            }
+        // 1. Security Check
+        if (!isAuthorized(request)) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
-    } catch (e) {
-        console.error('Steam error:', e);
-    }
 
-    return deals;
-}
+        const dryRunParam = request.nextUrl.searchParams.get('dryRun');
+        dryRun = dryRunParam === '1' || dryRunParam === 'true';
+        if (dryRun) log('🧪 DRY RUN: nothing will be posted or saved');
 
-// ============ EPIC DEALS (CheapShark + Free Games) ============
-async function fetchEpicDeals(): Promise<any[]> {
-    const deals: any[] = [];
+        const mode = parsePostMode(request.nextUrl.searchParams.get('mode'));
+        if (!mode) {
+            return NextResponse.json({ error: `mode must be one of ${POST_MODES.join(', ')}` }, { status: 400 });
+        }
+        run.mode = mode;
+        if (mode !== 'single') log(`🧵 Mode: ${mode}`);
 
-    // Epic Free Games (direct API)
-    try {
-        const res = await fetch('https://store-site-backend-static.ak.epicgames.com/freeGamesPromotions?locale=tr&country=TR', {
-            headers: { 'User-Agent': 'Mozilla/5.0' }
-        });
-        if (res.ok) {
-            const data = await res.json();
-            const games = data.data?.Catalog?.searchStore?.elements || [];
-
-            for (const game of games) {
-                if (!game.title || !game.promotions) continue;
-                const promos = game.promotions?.promotionalOffers?.[0]?.promotionalOffers || [];
-                const isFree = promos.some((p: any) => p.discountSetting?.discountPercentage === 0);
-
-                if (isFree) {
-                    const slug = game.productSlug || game.urlSlug || game.catalogNs?.mappings?.[0]?.pageSlug;
-                    if (slug && slug !== '[]') {
-                        deals.push({
-                            id: `epic_free_${game.id}`,
-                            name: game.title,
-                            discount_percent: 100,
-                            final_price: 0,
-                            currency: 'USD', // Free = 0, currency doesn't matter
-                            platform: 'Epic Games',
-                            metacritic: 90,
-                            url: `https://store.epicgames.com/tr/p/${slug}`,
-                            header_image: game.keyImages?.find((img: any) => img.type === 'OfferImageWide')?.url ||
-                                game.keyImages?.[0]?.url
-                        });
-                    }
-                }
-            }
+        const account = getAccount();
+        log(`👤 Account: ${account.id} (${account.locale}, ${account.region}, ${account.currency})`);
+
+        let publishers = getEnabledPublishers();
+        if (!dryRun && publishers.length === 0) {
+            throw new Error('No publishers configured');
         }
-    } catch (e) {
-        console.error('Epic free games error:', e);
-    }
+        log(`📣 Channels: ${publishers.map(p => p.id).join(', ') || 'none'}`);
 
-    // CheapShark for Epic sales (fast, no API key, Metacritic filter)
-    try {
-        const res = await fetch(`https://www.cheapshark.com/api/1.0/deals?storeID=25&upperPrice=50&onSale=1&pageSize=20&metacritic=${MIN_METACRITIC}`, {
-            headers: { 'User-Agent': 'Mozilla/5.0' }
-        });
-        if (res.ok) {
-            const data = await res.json();
-
-            for (const game of data) {
-                const discount = Math.round(parseFloat(game.savings) || 0);
-                if (discount >= 50) {
-                    const alreadyAdded = deals.some(d => d.name.toLowerCase() === game.title.toLowerCase());
-                    if (!alreadyAdded) {
-                        const steamAppId = game.steamAppID;
-
-                        deals.push({
-                            id: `epic_cs_${game.dealID}`,
-                            name: game.title,
-                            discount_percent: discount,
-                            final_price: parseFloat(game.salePrice) || 0,
-                            currency: 'USD',
-                            platform: 'Epic Games',
-                            metacritic: parseInt(game.metacriticScore) || 0,
-                            url: `https://store.epicgames.com/tr/browse?q=${encodeURIComponent(game.title)}`,
-                            header_image: steamAppId
-                                ? `https://cdn.akamai.steamstatic.com/steam/apps/${steamAppId}/header.jpg`
-                                : game.thumb
-                        });
-                    }
-                }
-            }
+        const supabaseAdmin = getOptionalSupabaseAdmin();
+        runStore = supabaseAdmin ?? null;
+        const storage = getStorage();
+        if (!supabaseAdmin) log('🗄️ Memory storage: no overrides, price history, run record or delivery log');
+        const { postedGames } = storage;
+
+        // 2. Fetch deals from all platforms and deduplicate
+        log('🔍 Fetching deals...');
+        const { providerResults, allDeals, uniqueDeals: fetchedDeals } = await collectDeals();
+        log(`📦 ${providerResults.map(r => `${r.provider.platform}: ${r.deals.length}${r.error ? ' ⚠️' : ''}`).join(' | ')}`);
+        for (const r of providerResults.filter(r => r.error)) {
+            log(`⚠️ ${r.provider.platform} fetch failed: ${r.error}`);
+        }
+        run.providers = toProviderStats(providerResults);
+        log(`🎯 Total unique: ${fetchedDeals.length}`);
+
+        // Price history: read stats first so this run's snapshot doesn't count as "the last sale"
+        const { stats: priceStats, error: statsError } = supabaseAdmin
+            ? await loadPriceStats(supabaseAdmin, fetchedDeals.map(d => d.canonical_id!).filter(Boolean))
+            : { stats: [] };
+        if (statsError) log(`⚠️ Price stats error: ${statsError}`);
+        const uniqueDeals = fetchedDeals.map(deal => applyPriceStats(deal, priceStats));
+
+        const historicalLows = uniqueDeals.filter(d => d.price_stats?.is_historical_low);
+        if (historicalLows.length > 0) {
+            log(`🏆 Historical lows: ${historicalLows.map(d => d.name).join(', ')}`);
         }
-    } catch (e) {
-        console.error('CheapShark Epic error:', e);
-    }
 
-    return deals;
-}
+        if (!dryRun && supabaseAdmin) {
+            const { saved, error: snapshotError } = await savePriceSnapshots(supabaseAdmin, allDeals);
+            log(snapshotError ? `⚠️ Price snapshot error: ${snapshotError}` : `💾 Saved ${saved} price snapshots`);
+        }
 
-// ============ GOG DEALS ============
-async function fetchGOGDeals(): Promise<any[]> {
-    const deals: any[] = [];
+        // 3. Calculate repost window
+        const repostHours = getRepostHours(uniqueDeals.length);
+        const repostWindow = new Date(Date.now() - repostHours * 60 * 60 * 1000).toISOString();
+        log(`🕒 Repost window: last ${repostHours} hours (${repostWindow})`);
 
-    try {
-        const res = await fetch('https://catalog.gog.com/v1/catalog?limit=20&order=desc:discount&productType=in:game', {
-            headers: { 'User-Agent': 'Mozilla/5.0' }
-        });
-        if (res.ok) {
-            const data = await res.json();
-            const products = data.products || [];
-
-            for (const game of products) {
-                const discountStr = game.price?.discount || '0';
-                const discount = Math.abs(parseInt(discountStr.replace(/[^0-9-]/g, '')) || 0);
-                const reviewsCount = game.reviewsCount || 0;
-
-                if (discount >= 25 && reviewsCount >= MIN_GOG_REVIEWS) {
-                    deals.push({
-                        id: `gog_${game.id}`,
-                        name: game.title,
-                        discount_percent: discount,
-                        final_price: parseFloat(game.price?.finalMoney?.amount) || 0,
-                        currency: game.price?.finalMoney?.currency || 'USD',
-                        platform: 'GOG',
-                        url: game.storeLink || `https://www.gog.com/en/game/${game.slug}`,
-                        header_image: game.coverHorizontal || null
-                    });
-                }
+        // Older posts are still loaded so scoring can prefer games we haven't shown lately
+        const { recencyDays } = getScoringConfig();
+        const historyStart = new Date(Math.min(
+            Date.now() - repostHours * 60 * 60 * 1000,
+            Date.now() - recencyDays * 24 * 60 * 60 * 1000
+        )).toISOString();
+
+        const { posts: postHistory, error: queryError } = await loadRecentPosts(postedGames, historyStart);
+        if (queryError) {
+            log(`⚠️ DB query error: ${queryError}`);
+        }
+        const recentPosts = postHistory.filter(p => Date.parse(p.created_at) > Date.parse(repostWindow));
+
+        // Manual blocks and pins from the admin API
+        const [blockResult, pinResult] = supabaseAdmin
+            ? await Promise.all([listOverrides(supabaseAdmin, 'blocked_games'), listOverrides(supabaseAdmin, 'pinned_deals')])
+            : [{ overrides: [] }, { overrides: [] }];
+        if (blockResult.error) log(`⚠️ Blocklist query error: ${blockResult.error}`);
+        if (pinResult.error) log(`⚠️ Pin query error: ${pinResult.error}`);
+        const blocks = blockResult.overrides;
+        const pins = pinResult.overrides;
+
+        const rates = await getExchangeRates(supabaseAdmin, { readOnly: dryRun });
+        log(describeRates(rates));
+
+        // What past posts' metrics say about platforms, discounts and prices (skipped at weight 0)
+        let engagement: EngagementModel | undefined;
+        if (getScoringConfig().weights.engagement > 0) {
+            const { report, error: engagementError } = await loadEngagementReport(storage);
+            if (engagementError) log(`⚠️ Engagement query error: ${engagementError}`);
+            if (report) {
+                engagement = toEngagementModel(report);
+                log(`📈 Engagement: ${report.posts} posts with metrics, avg ${report.averageEngagement}`);
             }
         }
-    } catch (e) {
-        console.error('GOG error:', e);
-    }
 
-    return deals;
-}
+        // 4. Score and rank deals
+        const rankedDeals = rankDeals(uniqueDeals, deal => {
+            const lastPost = findRecentPost(deal, postHistory);
+            return { rates, lastPostedAt: lastPost ? new Date(lastPost.created_at) : undefined, engagement };
+        });
 
-// ============ MAIN HANDLER ============
-export async function GET(request: NextRequest) {
-    const startTime = Date.now();
-    const logs: string[] = [];
-    const log = (msg: string) => {
-        console.log(msg);
-        logs.push(msg);
-    };
+        // Pinned deals jump the queue, in score order among themselves
+        const pinnedDeals = rankedDeals.filter(({ deal }) => findPin(deal, pins));
+        if (pinnedDeals.length > 0) {
+            log(`📌 Pinned: ${pinnedDeals.map(({ deal }) => deal.name).join(', ')}`);
+            rankedDeals.sort((a, b) => Number(!!findPin(b.deal, pins)) - Number(!!findPin(a.deal, pins)));
+        }
+        for (const pin of pins) {
+            if (!pinnedDeals.some(({ deal }) => findPin(deal, [pin]))) {
+                log(`📌 Pin not in current deals: ${pin.title}`);
+            }
+        }
 
-    try {
-        // 1. Security Check
-        const authHeader = request.headers.get('authorization');
-        if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        log('📊 Top scores:');
+        for (const { deal, score } of rankedDeals.slice(0, 5)) {
+            log(`   ${deal.name} [${deal.platform}] → ${formatScore(score)}`);
         }
 
-        const twitterClient = getTwitterClient();
-        const supabaseAdmin = getSupabaseAdmin();
+        // 5. Decide how many deals this run may post
+        const plan = planRun(postHistory);
+        log(`🗓️ Schedule: ${plan.reason}${plan.event ? ` [${plan.event}]` : ''}`);
 
-        // 2. Fetch deals from all platforms (PARALLEL - Fast!)
-        log('🔍 Fetching deals...');
-        const [steamDeals, epicDeals, gogDeals] = await Promise.all([
-            fetchSteamDeals(),
-            fetchEpicDeals(),
-            fetchGOGDeals()
-        ]);
-
-        const allDeals = [...steamDeals, ...epicDeals, ...gogDeals];
-        log(`📦 Steam: ${steamDeals.length} | Epic: ${epicDeals.length} | GOG: ${gogDeals.length}`);
-
-        // 3. Deduplicate: keep best deal per game (highest discount, then lowest price)
-        // Normalize names by removing special characters for better matching
-        const normalizeGameName = (name: string) =>
-            name.toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
-
-        const bestDeals = new Map<string, any>();
-        for (const deal of allDeals) {
-            const key = normalizeGameName(deal.name);
-            const existing = bestDeals.get(key);
-
-            if (!existing) {
-                bestDeals.set(key, deal);
-            } else {
-                // Keep the one with higher discount, or if same, lower price
-                const isBetterDiscount = deal.discount_percent > existing.discount_percent;
-                const isSameDiscountLowerPrice = deal.discount_percent === existing.discount_percent
-                    && deal.final_price < existing.final_price;
-
-                if (isBetterDiscount || isSameDiscountLowerPrice) {
-                    bestDeals.set(key, deal);
+        // Threads and digests run on their own schedule and only post their format.
+        // Every deal they include goes into posted_games, so single posts don't repeat it right away;
+        // the rows carry the mode, so they don't use up the single-post budgets.
+        if (mode !== 'single') {
+            if (plan.quiet && !dryRun) {
+                return respond('skipped', { message: `Skipped: ${plan.reason}`, mode, logs }, plan.reason);
+            }
+
+            // The top 5 should be news; digests and the free roundup may include games posted this week
+            const eligible = rankedDeals.filter(({ deal }) =>
+                isPostableType(classifyDeal(deal).type) &&
+                !findBlock(deal, blocks) &&
+                (mode !== 'top5' || !findRecentPost(deal, recentPosts))
+            );
+            const deals = selectForMode(mode, eligible);
+            log(`🧵 ${mode}: ${deals.map(d => d.name).join(', ') || 'nothing to post'}`);
+
+            if (deals.length === 0) {
+                return respond('nothing_new', { message: `No deals for ${mode}.`, mode, logs });
+            }
+
+            // The top 5 thread shows each deal's card under its own reply; digests lead with the best deal
+            const imageDeals = mode === 'top5' ? deals : deals.slice(0, 1);
+            const images = await Promise.all(imageDeals.map(async game =>
+                (await buildPostImage(game, rates, supabaseAdmin, log, dryRun)).image || null
+            ));
+            const format: Thread['format'] = (publisher, currency) => formatForMode(mode, deals, rates, publisher, currency);
+            const thread: Thread = mode === 'top5'
+                ? { images: [null, ...images], alts: ['', ...deals.map(d => d.name)], format }
+                : { images, alts: [deals[0].name], format };
+
+            const elapsed = () => `${((Date.now() - startTime) / 1000).toFixed(2)}s`;
+            if (dryRun) {
+                return NextResponse.json({
+                    dryRun: true,
+                    mode,
+                    schedule: plan,
+                    providers: run.providers,
+                    deals: deals.map(d => ({ game: d.name, platform: d.platform, discount: `${d.discount_percent}%`, price: formatPrice(d, rates) })),
+                    posts: previewThread(publishers, thread),
+                    elapsed: elapsed(),
+                    logs
+                });
+            }
+
+            const deliveries = await publishThreadToAll(publishers, thread);
+            run.deliveries.push(...deliveries);
+            for (const d of deliveries) {
+                log(d.success ? `✅ ${d.channel}: posted (${d.postId || 'no id'})` : `❌ ${d.channel}: ${d.error}`);
+            }
+
+            const succeeded = deliveries.filter(d => d.success);
+            let leadPostedId: number | null = null;
+            if (succeeded.length > 0) {
+                for (const game of deals) {
+                    const { id, error: dbError } = await recordPostedGame(postedGames, game, rates, null, mode);
+                    if (dbError) log(`⚠️ DB insert error for ${game.name}: ${dbError}`);
+                    leadPostedId ??= id ?? null;
+                    run.posted.push({ game: game.name, platform: game.platform, channels: succeeded.map(d => d.channel) });
                 }
             }
+
+            // Deliveries are per thread, logged against the lead deal. The log references
+            // posted_games rows, so it's only kept when those are in Supabase too.
+            const { error: deliveryError } = supabaseAdmin
+                ? await recordDeliveries(supabaseAdmin, deals[0], leadPostedId, deliveries)
+                : {};
+            if (deliveryError) log(`⚠️ Delivery log error: ${deliveryError}`);
+
+            if (succeeded.length === 0) {
+                const reasons = deliveries.map(d => `${d.channel}: ${d.error}`).join('; ');
+                return deliveries.every(d => d.rateLimited)
+                    ? respond('rate_limited', { error: 'Rate limited', mode, logs }, 'every channel rate limited', { status: 429 })
+                    : respond('failed', { error: `${mode} failed`, mode, deliveries, logs }, reasons, { status: 502 });
+            }
+
+            log(`✅ SUCCESS: ${mode} posted to ${succeeded.map(d => d.channel).join(', ')} in ${elapsed()}`);
+            return respond('posted', { success: true, mode, posted: run.posted, deliveries, elapsed: elapsed(), logs });
         }
 
-        const uniqueDeals = Array.from(bestDeals.values())
-            .sort((a, b) => b.discount_percent - a.discount_percent);
+        // 6. Epic free-game announcements. They have their own once-per-phase tracking,
+        // so only quiet hours hold them back - not the repost window or the post budget.
+        // Tracking needs Supabase; without it free games go through the regular selection.
+        let promotionsTracked = false;
+        const announcements: { game: string; phase: string; posts?: Record<string, string>; deliveries?: DeliveryResult[] }[] = [];
+        if (supabaseAdmin && getEnabledProviders().some(p => p.id === 'epic')) {
+            try {
+                const freeGames = await fetchEpicFreeGames();
+                const { error: syncError } = dryRun ? {} : await syncPromotions(supabaseAdmin, freeGames);
+                const { promotions, error: promoError } = await loadPromotions(supabaseAdmin);
+                if (syncError || promoError) throw new Error(syncError || promoError);
+                promotionsTracked = true;
+
+                for (const { promotion, phase } of dueAnnouncements(promotions)) {
+                    const game = promotionDeal(promotion, phase);
+                    if (plan.quiet && !dryRun) {
+                        log(`🌙 Holding ${phase} announcement for ${game.name} until quiet hours end`);
+                        continue;
+                    }
 
-        log(`🎯 Total unique: ${uniqueDeals.length}`);
+                    if (dryRun) {
+                        announcements.push({ game: game.name, phase, posts: previewPosts(publishers, game, rates) });
+                        log(`🧪 Would announce (${phase}): ${game.name}`);
+                        continue;
+                    }
 
-        // 4. Calculate repost window
-        const poolSize = uniqueDeals.length;
-        let repostHours = 48;
-        if (poolSize >= 50) repostHours = 120;
-        else if (poolSize >= 30) repostHours = 72;
+                    const { image, detail } = await buildPostImage(game, rates, supabaseAdmin, log, dryRun);
+                    if (!image) {
+                        log(`⚠️ No image for ${phase} announcement of ${game.name} (${detail})`);
+                        continue;
+                    }
 
-        const repostWindow = new Date(Date.now() - repostHours * 60 * 60 * 1000).toISOString();
-        log(`🕒 Repost window: last ${repostHours} hours (${repostWindow})`);
+                    const deliveries = await publishToAll(publishers, game, image, rates);
+                    const { error: deliveryError } = await recordDeliveries(supabaseAdmin, game, null, deliveries);
+                    if (deliveryError) log(`⚠️ Delivery log error: ${deliveryError}`);
+                    announcements.push({ game: game.name, phase, deliveries });
+                    run.deliveries.push(...deliveries);
+
+                    if (deliveries.some(d => d.success)) {
+                        const { error: markError } = await markAnnounced(supabaseAdmin, promotion, phase);
+                        log(markError ? `⚠️ Announcement mark error: ${markError}` : `📢 Announced (${phase}): ${game.name}`);
+                    } else {
+                        log(`❌ Announcement failed (${phase}): ${game.name} - ${deliveries.map(d => `${d.channel}: ${d.error}`).join('; ')}`);
+                    }
+                }
+            } catch (e) {
+                // Without tracking, free games go through the regular selection below
+                log(`⚠️ Free-game tracking error: ${e instanceof Error ? e.message : e}`);
+            }
+        }
+
+        // 7. Wishlist alerts, checked against every store's deals (not just the best per game)
+        let alerts: AlertResult[] = [];
+        if (!isDefaultAccount()) {
+            // Subscriptions come from the Turkish site and are priced in TL
+            log('🔔 Wishlist alerts only run for the default account');
+        } else if (!supabaseAdmin) {
+            log('🔔 Wishlist alerts need Supabase');
+        } else if (plan.quiet && !dryRun) {
+            log('🌙 Wishlist alerts wait until quiet hours end');
+        } else {
+            const { results, error: alertError } = await sendWishlistAlerts(
+                supabaseAdmin, allDeals, rates, getEnabledNotifiers(), dryRun
+            );
+            if (alertError) log(`⚠️ Wishlist error: ${alertError}`);
+            for (const r of results) {
+                log(r.sent || (dryRun && !r.error)
+                    ? `🔔 ${dryRun ? 'Would alert' : 'Alerted'} #${r.subscriptionId} via ${r.channel}: ${r.game}`
+                    : `❌ Wishlist alert #${r.subscriptionId} (${r.channel}): ${r.error}`);
+            }
+            alerts = results;
+            run.alerts = results.filter(r => r.sent).length;
+        }
+
+        run.announcements = announcements.filter(a => a.deliveries?.some(d => d.success)).length;
 
-        // 5. Find first eligible game (with rate limit protection)
+        if (plan.allowed === 0 && !dryRun) {
+            const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
+            return respond('skipped', { message: `Skipped: ${plan.reason}`, announcements, alerts, elapsed: `${elapsed}s`, logs }, plan.reason);
+        }
+        // Dry runs always preview at least one pick, even when the schedule says "not now"
+        const postLimit = dryRun ? Math.max(1, plan.allowed) : plan.allowed;
+        const platformRemaining = { ...plan.platformRemaining };
+
+        // 8. Pick eligible games in rank order (with rate limit protection)
+        const candidates: Candidate[] = [];
+        run.candidates = candidates;
+        const selected: {
+            game: string;
+            platform: string;
+            discount: string;
+            price: string;
+            metacritic: number | string;
+            historicalLow: boolean;
+            score: ScoreBreakdown;
+            tweet?: string;
+            posts?: Record<string, string>;
+            deliveries?: DeliveryResult[];
+        }[] = [];
         let tweetAttempts = 0;
+        let failedAttempts = 0;
+
+        for (const scored of rankedDeals) {
+            const { deal: game, score } = scored;
+            const pin = findPin(game, pins);
 
-        for (const game of uniqueDeals) {
-            // Stop if we've tried too many times (rate limit protection)
-            if (tweetAttempts >= MAX_TWEET_ATTEMPTS) {
-                log(`⚠️ STOPPING: Max tweet attempts (${MAX_TWEET_ATTEMPTS}) reached to avoid rate limiting`);
+            // Stop if too many deals failed to post (rate limit protection)
+            if (!dryRun && failedAttempts >= MAX_TWEET_ATTEMPTS) {
+                log(`⚠️ STOPPING: Max failed attempts (${MAX_TWEET_ATTEMPTS}) reached to avoid rate limiting`);
                 break;
             }
 
-            // Check if already posted - use first 3 words as fuzzy match prefix
-            const normalizedTitle = normalizeGameName(game.name);
-            const searchPrefix = normalizedTitle.split(' ').slice(0, 3).join(' '); // First 3 words
-
-            const { data: existing, error: queryError } = await supabaseAdmin
-                .from('posted_games')
-                .select('id, game_title, created_at')
-                .ilike('game_title', `${searchPrefix}%`) // Wildcard match on first words
-                .gt('created_at', repostWindow);
+            // Skip DLC, soundtracks, bundles and licence SKUs unless config allows them
+            const contentType = classifyDeal(game);
+            if (!pin && !isPostableType(contentType.type)) {
+                log(`🧹 Skipping ${contentType.type}: ${game.name}`);
+                candidates.push(toCandidate(scored, 'skipped', 'content_type', contentType.type));
+                continue;
+            }
 
-            if (queryError) {
-                log(`⚠️ DB query error: ${queryError.message}`);
+            // Tracked free-game windows are announced in step 6
+            if (game.free_window && promotionsTracked) {
+                candidates.push(toCandidate(scored, 'skipped', 'free_promotion'));
+                continue;
             }
 
-            if (existing && existing.length > 0) {
-                log(`⏭️ Skip: ${game.name} (found: "${existing[0].game_title}")`);
+            const existing = pin ? undefined : findRecentPost(game, recentPosts);
+            if (existing) {
+                log(`⏭️ Skip: ${game.name} (found: "${existing.game_title}")`);
+                candidates.push(toCandidate(scored, 'skipped', 'already_posted', existing.game_title));
                 continue;
             }
 
-            if (!game.header_image) {
+            // Without cards the store artwork is the post image; cards draw a placeholder instead
+            if (!game.header_image && !getCardConfig().enabled) {
+                candidates.push(toCandidate(scored, 'skipped', 'no_image'));
                 continue; // Silent skip for no image
             }
 
-            // Skip blacklisted games
-            const isBlacklisted = BLACKLISTED_GAMES.some(bg => game.name.toLowerCase().includes(bg));
-            if (isBlacklisted) {
-                log(`⚫ Skipping blacklisted: ${game.name}`);
+            // Skip blocked games (blocks win over pins)
+            const block = findBlock(game, blocks);
+            if (block) {
+                log(`⚫ Skipping blocked: ${game.name}${block.reason ? ` (${block.reason})` : ''}`);
+                candidates.push(toCandidate(scored, 'skipped', 'blacklisted', block.reason || block.title));
+                continue;
+            }
+
+            // Per-platform daily budget (pins don't count against it)
+            if (!pin && platformRemaining[game.platform] === 0) {
+                candidates.push(toCandidate(scored, 'skipped', 'platform_budget', game.platform));
+                continue;
+            }
+
+            // Keep scanning after the limit so every candidate gets a verdict
+            if (selected.length >= postLimit) {
+                candidates.push(toCandidate(scored, 'skipped', 'lower_ranked'));
                 continue;
             }
 
-            log(`🎯 Trying: ${game.name} - ${game.discount_percent}% on ${game.platform}`);
+            log(`🎯 Trying: ${game.name} - ${game.discount_percent}% on ${game.platform} (score ${formatScore(score)})`);
             tweetAttempts++;
 
-            // Add delay between tweet attempts (except first one)
-            if (tweetAttempts > 1) {
+            // Add delay between attempts (except first one)
+            if (!dryRun && tweetAttempts > 1) {
                 log(`⏳ Waiting 3 seconds before next attempt...`);
                 await delay(3000);
             }
 
-            // 6. Fetch image and post
+            // 9. Fetch image and compose the deal card
             try {
-                const imgRes = await fetch(game.header_image, { headers: { 'User-Agent': 'Mozilla/5.0' } });
-                if (!imgRes.ok) {
-                    log(`⚠️ Image failed for ${game.name} (${imgRes.status})`);
+                const { image, detail: imageDetail } = await buildPostImage(game, rates, supabaseAdmin, log, dryRun);
+                if (!image) {
+                    candidates.push(toCandidate(scored, 'skipped', 'image_failed', imageDetail));
                     continue;
                 }
 
-                const imgBuffer = Buffer.from(await imgRes.arrayBuffer());
-                const mediaId = await twitterClient.v1.uploadMedia(imgBuffer, { mimeType: 'image/jpeg' });
+                const summary = {
+                    game: game.name,
+                    platform: game.platform,
+                    discount: `${game.discount_percent}%`,
+                    price: formatPrice(game, rates),
+                    metacritic: game.metacritic || 'N/A',
+                    historicalLow: !!game.price_stats?.is_historical_low,
+                    score
+                };
+
+                if (dryRun) {
+                    selected.push({ ...summary, tweet: formatTweet(game, rates), posts: previewPosts(publishers, game, rates) });
+                    candidates.push(toCandidate(scored, 'selected'));
+                    log(`🧪 Would post: ${game.name}`);
+                    continue;
+                }
 
-                // 7. Format Tweet - Convert USD to TL using live rate
-                const exchangeRate = await getExchangeRate();
-                let priceInTL = game.final_price;
-                let decimals = 2; // Default: 2 decimals for original TL prices
-                if (game.currency === 'USD' && game.final_price > 0) {
-                    priceInTL = game.final_price * exchangeRate;
-                    decimals = 0; // Rounded for converted prices
+                // 10. Publish to every channel
+                const deliveries = await publishToAll(publishers, game, image, rates);
+                run.deliveries.push(...deliveries);
+                for (const d of deliveries) {
+                    log(d.success ? `✅ ${d.channel}: posted (${d.postId || 'no id'})` : `❌ ${d.channel}: ${d.error}`);
                 }
-                const priceStr = game.final_price === 0 ? '🆓 ÜCRETSİZ' : `${priceInTL.toFixed(decimals)} ₺`;
-                const platformEmoji = game.platform === 'Steam' ? '♨️' :
-                    game.platform === 'Epic Games' ? '🎮' : '🌌';
-                const metaStr = game.metacritic && game.metacritic > 0 ? `⭐ Metacritic: ${game.metacritic}\n` : '';
 
-                const tweetText = `🔥 ${game.name}
+                // Rate-limited channels sit out the rest of this run
+                const rateLimited = deliveries.filter(d => d.rateLimited).map(d => d.channel);
+                publishers = publishers.filter(p => !rateLimited.includes(p.id));
+
+                const succeeded = deliveries.filter(d => d.success);
+                let postedGameId: number | null = null;
+
+                if (succeeded.length > 0) {
+                    // 11. Log to DB
+                    const { id: postedRowId, error: dbError } = await recordPostedGame(
+                        postedGames,
+                        game,
+                        rates,
+                        succeeded.find(d => d.channel === 'twitter')?.postId || null
+                    );
+                    if (dbError) {
+                        log(`⚠️ DB insert error: ${dbError}`);
+                    } else {
+                        postedGameId = postedRowId!;
+                        log(`📝 Saved to DB: ${game.name}`);
+                    }
+                }
 
-📉 %${game.discount_percent} İndirim
-🏷️ ${priceStr}
-${platformEmoji} ${game.platform}
-${metaStr}🔗 ${game.url}`.trim();
+                const { error: deliveryError } = supabaseAdmin
+                    ? await recordDeliveries(supabaseAdmin, game, postedGameId, deliveries)
+                    : {};
+                if (deliveryError) log(`⚠️ Delivery log error: ${deliveryError}`);
+
+                if (succeeded.length === 0) {
+                    failedAttempts++;
+                    const reasons = deliveries.map(d => `${d.channel}: ${d.error}`).join('; ');
+                    candidates.push(toCandidate(scored, 'skipped', 'post_failed', reasons));
+
+                    // Stop once every channel is rate limited (429)
+                    if (publishers.length === 0) {
+                        log(`🛑 RATE LIMITED on every channel! Stopping to avoid more 429 errors.`);
+                        return respond('rate_limited', {
+                            error: 'Rate limited',
+                            message: 'Try again after 15 minutes',
+                            attempts: tweetAttempts,
+                            posted: selected,
+                            logs
+                        }, 'every channel rate limited', { status: 429 });
+                    }
 
-                // 8. Post Tweet
-                await twitterClient.v2.tweet({ text: tweetText, media: { media_ids: [mediaId] } });
+                    // For other errors, continue to next game
+                    continue;
+                }
 
                 const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
-                log(`✅ SUCCESS: Tweet posted for ${game.name} in ${elapsed}s`);
-
-                // 9. Log to DB
-                const numericAppId = parseInt(game.id.replace(/\D/g, '').slice(0, 9)) || 0;
-                const normalizedTitleForDB = normalizeGameName(game.name);
-
-                const { error: dbError } = await supabaseAdmin.from('posted_games').insert({
-                    app_id: numericAppId,
-                    game_title: normalizedTitleForDB,
-                    price_usd: game.final_price || 0
-                });
-
-                if (dbError) {
-                    log(`⚠️ DB insert error: ${dbError.message}`);
-                } else {
-                    log(`📝 Saved to DB: ${normalizedTitleForDB}`);
+                log(`✅ SUCCESS: ${game.name} posted to ${succeeded.map(d => d.channel).join(', ')} in ${elapsed}s`);
+                selected.push({ ...summary, deliveries });
+                run.posted.push({ game: game.name, platform: game.platform, channels: succeeded.map(d => d.channel) });
+                candidates.push(toCandidate(scored, 'selected'));
+                if (platformRemaining[game.platform] !== undefined && !pin) {
+                    platformRemaining[game.platform]--;
                 }
 
-                return NextResponse.json({
-                    success: true,
-                    game: game.name,
-                    platform: game.platform,
-                    discount: `${game.discount_percent}%`,
-                    price: priceStr,
-                    metacritic: game.metacritic || 'N/A',
-                    elapsed: `${elapsed}s`,
-                    logs
-                });
+                // A pin is a one-off request, drop it once posted
+                if (pin && supabaseAdmin) {
+                    const { error: pinError } = await removeOverride(supabaseAdmin, 'pinned_deals', pin.id);
+                    log(pinError ? `⚠️ Pin removal error: ${pinError}` : `📌 Pin used: ${pin.title}`);
+                }
 
             } catch (err: any) {
+                failedAttempts++;
                 const errorCode = err.code || err.data?.status || 'unknown';
                 log(`❌ Failed: ${game.name} - ${err.message || errorCode}`);
-
-                // Stop immediately on rate limit (429)
-                if (err.code === 429 || err.message?.includes('429') || err.message?.includes('Too Many')) {
-                    log(`🛑 RATE LIMITED! Stopping to avoid more 429 errors.`);
-                    return NextResponse.json({
-                        error: 'Rate limited by Twitter',
-                        message: 'Try again after 15 minutes',
-                        attempts: tweetAttempts,
-                        logs
-                    }, { status: 429 });
-                }
-
-                // For other errors, continue to next game
+                candidates.push(toCandidate(scored, 'skipped', 'post_failed', err.message || String(errorCode)));
                 continue;
             }
         }
 
         const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
+
+        if (dryRun) {
+            return NextResponse.json({
+                dryRun: true,
+                schedule: plan,
+                providers: run.providers,
+                announcements,
+                alerts,
+                rates: { source: rates.source, fetchedAt: rates.fetchedAt, TRY: rates.rates.TRY },
+                selected,
+                candidates,
+                elapsed: `${elapsed}s`,
+                logs
+            });
+        }
+
+        if (selected.length > 0) {
+            return respond('posted', { success: true, posted: selected, announcements, alerts, elapsed: `${elapsed}s`, logs });
+        }
+
         log(`INFO: Finished scanning all ${uniqueDeals.length} unique deals. No new eligible games found.`);
-        return NextResponse.json({ message: 'No new eligible games.', elapsed: `${elapsed}s`, logs });
+        return respond('nothing_new', { message: 'No new eligible games.', announcements, alerts, elapsed: `${elapsed}s`, logs });
 
     } catch (error: any) {
         log(`CRITICAL: Cron failed: ${error.message}`);
-        return NextResponse.json({ error: error.message, logs: logs.length > 0 ? logs : undefined }, { status: 500 });
+        return respond('failed', { error: error.message, logs: logs.length > 0 ? logs : undefined }, error.message, { status: 500 });
+    }
+}
+
+export async function GET(request: NextRequest) {
+    const account = findAccount(request.nextUrl.searchParams.get('account'));
+    if (!account) {
+        return NextResponse.json({ error: 'Unknown account' }, { status: 400 });
     }
+    return runWithAccount(account, () => runCron(request));
 }
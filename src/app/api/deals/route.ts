@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOptionalSupabaseAdmin } from '@/lib/supabase';
+import { loadPublicDeals } from '@/lib/pipeline';
+import { cachedResponse } from '@/lib/cache';
+import { filterDeals, loadFeedItems, parseFilters, siteUrl, toDealJson } from '@/lib/feed';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_PAGE_SIZE = 100;
+
+// GET /api/deals?platform=GOG&minDiscount=50&free=1&page=2&pageSize=20
+// ?source=posted returns what the bot has posted instead of the current selection
+export async function GET(request: NextRequest) {
+    try {
+        const params = request.nextUrl.searchParams;
+        const filters = parseFilters(request);
+        const page = Math.max(1, parseInt(params.get('page') || '') || 1);
+        const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(params.get('pageSize') || '') || 20));
+        const origin = siteUrl(request);
+        const supabaseAdmin = getOptionalSupabaseAdmin();
+
+        const posted = params.get('source') === 'posted';
+        let items: unknown[];
+        if (posted) {
+            // Enough matching history for this page (+1 to know if there's more)
+            items = await loadFeedItems(supabaseAdmin, origin, filters, page * pageSize + 1);
+        } else {
+            const { deals, rates } = await loadPublicDeals(supabaseAdmin);
+            items = filterDeals(deals, filters).map(deal => toDealJson(deal, rates, origin));
+        }
+
+        const start = (page - 1) * pageSize;
+        const body = JSON.stringify({
+            page,
+            pageSize,
+            total: posted ? undefined : items.length,
+            hasMore: items.length > start + pageSize,
+            items: items.slice(start, start + pageSize)
+        });
+
+        return cachedResponse(request, body, 'application/json; charset=utf-8');
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorized } from '@/lib/auth';
+import { findAccount, runWithAccount } from '@/lib/accounts';
+import { loadEngagementReport } from '@/lib/engagement';
+import { getStorage } from '@/lib/repositories';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_DAYS = 365;
+
+// GET ?account=us&days=30 - engagement of the account's posts broken down by platform,
+// discount band, price band, free vs paid and local time of day. Each group's lift is its
+// average engagement relative to all posts; the scoring weight "engagement" uses the same numbers.
+export async function GET(request: NextRequest) {
+    if (!isAuthorized(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const account = findAccount(request.nextUrl.searchParams.get('account'));
+    if (!account) {
+        return NextResponse.json({ error: 'Unknown account' }, { status: 400 });
+    }
+
+    return runWithAccount(account, async () => {
+        try {
+            const days = parseInt(request.nextUrl.searchParams.get('days') || '');
+            const { report, error } = await loadEngagementReport(
+                getStorage(),
+                days > 0 ? Math.min(days, MAX_DAYS) : undefined
+            );
+            if (error) return NextResponse.json({ error }, { status: 500 });
+
+            return NextResponse.json(report);
+        } catch (error: any) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+    });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorized } from '@/lib/auth';
+import { findAccount, runWithAccount } from '@/lib/accounts';
+import { collectMetrics, twitterMetricsClient } from '@/lib/engagement';
+import { getStorage } from '@/lib/repositories';
+
+export const dynamic = 'force-dynamic';
+
+// GET ?account=us - refresh likes, reposts, replies and link clicks for the account's posts
+// from the last METRICS_DAYS. Called periodically by .github/workflows/collect-metrics.yml.
+export async function GET(request: NextRequest) {
+    if (!isAuthorized(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const account = findAccount(request.nextUrl.searchParams.get('account'));
+    if (!account) {
+        return NextResponse.json({ error: 'Unknown account' }, { status: 400 });
+    }
+
+    return runWithAccount(account, async () => {
+        if (!twitterMetricsClient.isConfigured()) {
+            return NextResponse.json({ account: account.id, skipped: 'Twitter is not configured', checked: 0, updated: 0 });
+        }
+
+        try {
+            const result = await collectMetrics(getStorage());
+            return NextResponse.json({ account: account.id, ...result }, { status: result.error ? 502 : 200 });
+        } catch (error: any) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+    });
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorized } from '@/lib/auth';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { listRuns, summarizeHealth } from '@/lib/runs';
+import { findAccount } from '@/lib/accounts';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+
+// GET ?limit=N&account=us - the account's latest cron runs (default account if none given),
+// newest first, plus a health summary over them.
+// Responds 503 when the summary finds issues so uptime checks can alert on it.
+export async function GET(request: NextRequest) {
+    if (!isAuthorized(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const account = findAccount(request.nextUrl.searchParams.get('account'));
+    if (!account) {
+        return NextResponse.json({ error: 'Unknown account' }, { status: 400 });
+    }
+
+    try {
+        const limit = Math.min(
+            parseInt(request.nextUrl.searchParams.get('limit') || '') || DEFAULT_LIMIT,
+            MAX_LIMIT
+        );
+        const { runs, error } = await listRuns(getSupabaseAdmin(), limit, account.id);
+        if (error) return NextResponse.json({ error }, { status: 500 });
+
+        const health = summarizeHealth(runs);
+        return NextResponse.json({ health, runs }, { status: health.status === 'ok' ? 200 : 503 });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorized } from '@/lib/auth';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getEnabledNotifiers } from '@/lib/notifiers';
+import {
+    addSubscription,
+    cancelSubscription,
+    listSubscriptions,
+    parseSubscriptionInput
+} from '@/lib/wishlist';
+
+// GET (list, ?all=1 includes cancelled) and POST { gameTitle, gameId?, targetPrice?, minDiscount?,
+// channel, contact } need the cron secret. DELETE ?token= is open so subscribers can cancel
+// with the token they got back from POST; ?id= needs the secret.
+export const dynamic = 'force-dynamic';
+
+const unauthorized = () => NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+export async function GET(request: NextRequest) {
+    if (!isAuthorized(request)) return unauthorized();
+
+    try {
+        const includeCancelled = request.nextUrl.searchParams.get('all') === '1';
+        const { subscriptions, error } = await listSubscriptions(getSupabaseAdmin(), includeCancelled);
+        if (error) return NextResponse.json({ error }, { status: 500 });
+
+        return NextResponse.json({ items: subscriptions });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    if (!isAuthorized(request)) return unauthorized();
+
+    try {
+        const body = await request.json().catch(() => null);
+        const input = parseSubscriptionInput(body, getEnabledNotifiers().map(n => n.id));
+        if (typeof input === 'string') {
+            return NextResponse.json({ error: input }, { status: 400 });
+        }
+
+        const { subscription, cancelToken, error } = await addSubscription(getSupabaseAdmin(), input);
+        if (error) return NextResponse.json({ error }, { status: 500 });
+
+        return NextResponse.json({ item: subscription, cancelToken }, { status: 201 });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const token = request.nextUrl.searchParams.get('token');
+        const id = parseInt(request.nextUrl.searchParams.get('id') || '');
+
+        if (!token) {
+            if (!isAuthorized(request)) return unauthorized();
+            if (!id) return NextResponse.json({ error: 'token or id is required' }, { status: 400 });
+        }
+
+        const { cancelled, error } = await cancelSubscription(getSupabaseAdmin(), token ? { token } : { id });
+        if (error) return NextResponse.json({ error }, { status: 500 });
+        if (cancelled === 0) return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+
+        return NextResponse.json({ cancelled: token ? 'token' : id });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOptionalSupabaseAdmin } from '@/lib/supabase';
+import { cachedResponse } from '@/lib/cache';
+import { loadFeedItems, parseFilters, renderRss, siteUrl } from '@/lib/feed';
+
+export const dynamic = 'force-dynamic';
+
+// RSS 2.0 feed of posted deals, accepts the same filters as /api/deals
+export async function GET(request: NextRequest) {
+    try {
+        const origin = siteUrl(request);
+        const items = await loadFeedItems(getOptionalSupabaseAdmin(), origin, parseFilters(request));
+        return cachedResponse(request, renderRss(items, origin), 'application/rss+xml; charset=utf-8');
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
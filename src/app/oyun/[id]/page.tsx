@@ -0,0 +1,133 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import styles from "./page.module.css";
+import { getOptionalSupabaseAdmin } from "@/lib/supabase";
+import { loadPublicDeals } from "@/lib/pipeline";
+import { loadPriceHistory, loadPriceStats, type PricePoint } from "@/lib/history";
+import { formatMoney } from "@/lib/pricing";
+import { formatPrice } from "@/lib/tweet";
+
+export const dynamic = "force-dynamic";
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString("tr-TR", { timeZone: "Europe/Istanbul", day: "numeric", month: "short", year: "numeric" });
+
+// One row per day and store: the lowest price seen that day
+const dailyLows = (points: PricePoint[]): PricePoint[] => {
+  const byDay = new Map<string, PricePoint>();
+  for (const point of points) {
+    const key = `${point.created_at.slice(0, 10)}|${point.platform}|${point.currency}`;
+    const existing = byDay.get(key);
+    if (!existing || point.price < existing.price) byDay.set(key, point);
+  }
+  return Array.from(byDay.values());
+};
+
+function PriceChart({ points }: { points: PricePoint[] }) {
+  if (points.length < 2) return null;
+
+  const times = points.map((p) => Date.parse(p.created_at));
+  const prices = points.map((p) => p.price);
+  const [minT, maxT] = [Math.min(...times), Math.max(...times)];
+  const [minP, maxP] = [Math.min(...prices), Math.max(...prices)];
+  const x = (t: number) => ((t - minT) / (maxT - minT || 1)) * CHART_WIDTH;
+  const y = (p: number) => CHART_HEIGHT - ((p - minP) / (maxP - minP || 1)) * (CHART_HEIGHT - 10) - 5;
+
+  return (
+    <svg className={styles.chart} viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label="Fiyat geçmişi">
+      <polyline fill="none" strokeWidth={2} points={points.map((p, i) => `${x(times[i])},${y(p.price)}`).join(" ")} />
+    </svg>
+  );
+}
+
+export default async function GamePage({ params }: { params: { id: string } }) {
+  const gameId = decodeURIComponent(params.id);
+  const supabaseAdmin = getOptionalSupabaseAdmin();
+
+  // Price history lives in Supabase; on the memory backend the page shows the current deal only
+  const [{ deals, rates }, { points }, { stats }] = await Promise.all([
+    loadPublicDeals(supabaseAdmin),
+    supabaseAdmin ? loadPriceHistory(supabaseAdmin, gameId) : { points: [] },
+    supabaseAdmin ? loadPriceStats(supabaseAdmin, [gameId]) : { stats: [] },
+  ]);
+
+  const currentDeal = deals.find((deal) => deal.canonical_id === gameId);
+  if (!currentDeal && points.length === 0) notFound();
+
+  const title = currentDeal?.name || points[points.length - 1].game_title;
+  const history = dailyLows(points);
+  // The chart follows the currency we have the most data for
+  const chartCurrency = stats.slice().sort(
+    (a, b) => history.filter((p) => p.currency === b.currency).length - history.filter((p) => p.currency === a.currency).length
+  )[0]?.currency;
+
+  return (
+    <main className={styles.main}>
+      <Link href="/" className={styles.back}>
+        ← Tüm fırsatlar
+      </Link>
+      <h1>{title}</h1>
+
+      {currentDeal ? (
+        <p className={styles.current}>
+          Şu an {currentDeal.platform}&apos;da <strong>%{currentDeal.discount_percent}</strong> indirimle{" "}
+          <strong>{formatPrice(currentDeal, rates, "TRY")}</strong> —{" "}
+          <a href={currentDeal.url} target="_blank" rel="noopener noreferrer">
+            mağazaya git
+          </a>
+        </p>
+      ) : (
+        <p className={styles.current}>Şu an aktif bir indirim yok.</p>
+      )}
+
+      {stats.length > 0 && (
+        <dl className={styles.stats}>
+          {stats.map((s) => (
+            <div key={s.currency}>
+              <dt>En düşük ({s.currency})</dt>
+              <dd>{formatMoney({ amount: Number(s.all_time_low), currency: s.currency })}</dd>
+              <dt>Son 90 gün</dt>
+              <dd>{s.low_90d === null ? "—" : formatMoney({ amount: Number(s.low_90d), currency: s.currency })}</dd>
+              <dt>Son indirim</dt>
+              <dd>{s.last_sale_at ? formatDay(s.last_sale_at) : "—"}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <PriceChart points={history.filter((p) => p.currency === chartCurrency)} />
+
+      <h2>Fiyat geçmişi</h2>
+      {history.length === 0 ? (
+        <p>Henüz fiyat kaydı yok.</p>
+      ) : (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Tarih</th>
+              <th>Mağaza</th>
+              <th>İndirim</th>
+              <th>Fiyat</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history
+              .slice()
+              .reverse()
+              .map((p) => (
+                <tr key={`${p.created_at}-${p.platform}`}>
+                  <td>{formatDay(p.created_at)}</td>
+                  <td>{p.platform}</td>
+                  <td>%{p.discount_percent}</td>
+                  <td>{p.price === 0 ? "Ücretsiz" : formatMoney({ amount: p.price, currency: p.currency })}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
@@ -1,94 +1,128 @@
 import Image from "next/image";
+import Link from "next/link";
 import styles from "./page.module.css";
+import { getOptionalSupabaseAdmin } from "@/lib/supabase";
+import { loadPostedFeed, loadPublicDeals } from "@/lib/pipeline";
+import { getStorage } from "@/lib/repositories";
+import { getProviderByPlatform } from "@/lib/providers";
+import { dealPath, gamePath } from "@/lib/paths";
+import { formatPrice } from "@/lib/tweet";
+
+export const dynamic = "force-dynamic";
+
+interface SearchParams {
+  platform?: string;
+  minDiscount?: string;
+  free?: string;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString("tr-TR", {
+    timeZone: "Europe/Istanbul",
+    day: "numeric",
+    month: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default async function Home({ searchParams }: { searchParams: SearchParams }) {
+  const supabaseAdmin = getOptionalSupabaseAdmin();
+  const [{ deals, rates }, posted] = await Promise.all([
+    loadPublicDeals(supabaseAdmin),
+    loadPostedFeed(getStorage().postedGames),
+  ]);
+
+  const platform = searchParams.platform || "";
+  const minDiscount = parseInt(searchParams.minDiscount || "") || 0;
+  const freeOnly = searchParams.free === "1";
+
+  const filtered = deals.filter(
+    (deal) =>
+      (!platform || deal.platform === platform) &&
+      deal.discount_percent >= minDiscount &&
+      (!freeOnly || deal.final_price === 0)
+  );
+
+  const platforms = Array.from(new Set(deals.map((deal) => deal.platform)));
+  const groups = platforms
+    .map((name) => ({ name, deals: filtered.filter((deal) => deal.platform === name) }))
+    .filter((group) => group.deals.length > 0);
 
-export default function Home() {
   return (
     <main className={styles.main}>
-      <div className={styles.description}>
-        <p>
-          Get started by editing&nbsp;
-          <code className={styles.code}>src/app/page.tsx</code>
-        </p>
-        <div>
-          <a
-            href="https://vercel.com?utm_source=create-next-app&utm_medium=appdir-template&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            By{" "}
-            <Image
-              src="/vercel.svg"
-              alt="Vercel Logo"
-              className={styles.vercelLogo}
-              width={100}
-              height={24}
-              priority
-            />
-          </a>
-        </div>
-      </div>
-
-      <div className={styles.center}>
-        <Image
-          className={styles.logo}
-          src="/next.svg"
-          alt="Next.js Logo"
-          width={180}
-          height={37}
-          priority
-        />
-      </div>
+      <header className={styles.header}>
+        <h1>🎮 Oyun İndirimleri</h1>
+        <p>Botun şu an paylaşmaya aday gördüğü fırsatlar ve son paylaşımlar.</p>
+      </header>
 
-      <div className={styles.grid}>
-        <a
-          href="https://nextjs.org/docs?utm_source=create-next-app&utm_medium=appdir-template&utm_campaign=create-next-app"
-          className={styles.card}
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <h2>
-            Docs <span>-&gt;</span>
-          </h2>
-          <p>Find in-depth information about Next.js features and API.</p>
-        </a>
+      <form className={styles.filters} method="get">
+        <label>
+          Platform
+          <select name="platform" defaultValue={platform}>
+            <option value="">Tümü</option>
+            {platforms.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          En az indirim (%)
+          <input type="number" name="minDiscount" min={0} max={100} defaultValue={minDiscount || ""} />
+        </label>
+        <label className={styles.checkbox}>
+          <input type="checkbox" name="free" value="1" defaultChecked={freeOnly} />
+          Sadece ücretsiz
+        </label>
+        <button type="submit">Filtrele</button>
+      </form>
 
-        <a
-          href="https://nextjs.org/learn?utm_source=create-next-app&utm_medium=appdir-template&utm_campaign=create-next-app"
-          className={styles.card}
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <h2>
-            Learn <span>-&gt;</span>
-          </h2>
-          <p>Learn about Next.js in an interactive course with&nbsp;quizzes!</p>
-        </a>
+      <div className={styles.layout}>
+        <section>
+          {groups.length === 0 && <p className={styles.empty}>Bu filtrelere uyan fırsat yok.</p>}
 
-        <a
-          href="https://vercel.com/templates?framework=next.js&utm_source=create-next-app&utm_medium=appdir-template&utm_campaign=create-next-app"
-          className={styles.card}
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <h2>
-            Templates <span>-&gt;</span>
-          </h2>
-          <p>Explore starter templates for Next.js.</p>
-        </a>
+          {groups.map((group) => (
+            <div key={group.name} className={styles.group}>
+              <h2>
+                {getProviderByPlatform(group.name)?.emoji} {group.name}{" "}
+                <span className={styles.count}>{group.deals.length}</span>
+              </h2>
+              <div className={styles.grid}>
+                {group.deals.map((deal) => (
+                  <Link key={deal.id} href={dealPath(deal)} className={styles.card}>
+                    {deal.header_image && (
+                      <Image src={deal.header_image} alt={deal.name} width={460} height={215} unoptimized />
+                    )}
+                    <h3>{deal.name}</h3>
+                    <p>
+                      <span className={styles.discount}>%{deal.discount_percent}</span>{" "}
+                      {formatPrice(deal, rates, "TRY")}
+                    </p>
+                    {deal.price_stats?.is_historical_low && (
+                      <p className={styles.badge}>🏆 Tüm zamanların en düşük fiyatı</p>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          ))}
+        </section>
 
-        <a
-          href="https://vercel.com/new?utm_source=create-next-app&utm_medium=appdir-template&utm_campaign=create-next-app"
-          className={styles.card}
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <h2>
-            Deploy <span>-&gt;</span>
-          </h2>
-          <p>
-            Instantly deploy your Next.js site to a shareable URL with Vercel.
-          </p>
-        </a>
+        <aside className={styles.feed}>
+          <h2>Son paylaşılanlar</h2>
+          <ul>
+            {posted.map((post) => (
+              <li key={post.id}>
+                {post.game_id ? <Link href={gamePath(post.game_id)}>{post.game_title}</Link> : post.game_title}
+                <small>
+                  {post.platform ? `${post.platform} · ` : ""}
+                  {formatDate(post.created_at)}
+                </small>
+              </li>
+            ))}
+          </ul>
+        </aside>
       </div>
     </main>
   );
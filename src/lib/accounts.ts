@@ -0,0 +1,88 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Locale } from '@/lib/i18n';
+
+// One codebase, several posting accounts (e.g. a Turkish and a US one). /api/cron?account=us
+// runs the whole pipeline inside runWithAccount, so everything below reads the active account:
+// store region, currency, post language, time zone, credentials and settings.
+//
+// ACCOUNTS='{"us":{"locale":"en","region":"US","currency":"USD","timeZone":"America/New_York"}}'
+//
+// Settings for an account are read as <ID>_<NAME> first and fall back to the shared
+// variable (US_SCHEDULE_POLICY, US_ENABLED_PROVIDERS, US_SCORING_WEIGHTS, ...).
+// Credentials never fall back, so a missing US_TWITTER_APP_KEY leaves that channel off
+// instead of posting to the Turkish account. The default "tr" account reads the plain names.
+//
+// posted_games, free_promotions, price_history and cron_runs rows carry the account (or its
+// region), so each account has its own history (supabase/migrations/0010_accounts.sql).
+// Blocks, pins and exchange rates are shared.
+
+export const DEFAULT_ACCOUNT_ID = 'tr';
+
+export interface Account {
+    id: string;           // Stored in posted_games.account and cron_runs.account
+    locale: Locale;       // Post language
+    region: string;       // Store country, e.g. "TR" (Steam cc, Epic country, GOG, ITAD)
+    currency: string;     // Posts are priced in this currency
+    timeZone: string;     // Quiet hours, daily budgets and dates in posts
+    envPrefix: string;    // "" for the default account, "US_" for "us"
+}
+
+type AccountSettings = Partial<Pick<Account, 'locale' | 'region' | 'currency' | 'timeZone'>>;
+
+const defaultAccount = (): Account => ({
+    id: DEFAULT_ACCOUNT_ID,
+    locale: 'tr',
+    region: 'TR',
+    currency: (process.env.TARGET_CURRENCY || 'TRY').toUpperCase(),
+    timeZone: 'Europe/Istanbul',
+    envPrefix: ''
+});
+
+export const getAccounts = (): Account[] => {
+    let configured: Record<string, AccountSettings> = {};
+    if (process.env.ACCOUNTS) {
+        try {
+            configured = JSON.parse(process.env.ACCOUNTS);
+        } catch (e) {
+            console.error('Invalid ACCOUNTS, using the default account only:', e);
+        }
+    }
+
+    const base = defaultAccount();
+    const others = Object.entries(configured)
+        .filter(([id]) => id.toLowerCase() !== DEFAULT_ACCOUNT_ID)
+        .map(([id, settings]): Account => ({
+            id: id.toLowerCase(),
+            locale: settings.locale === 'tr' ? 'tr' : 'en',
+            region: (settings.region || id).toUpperCase(),
+            currency: (settings.currency || 'USD').toUpperCase(),
+            timeZone: settings.timeZone || 'UTC',
+            envPrefix: `${id.toUpperCase()}_`
+        }));
+
+    // ACCOUNTS may also adjust the default account, but it keeps the plain variable names
+    return [{ ...base, ...configured[DEFAULT_ACCOUNT_ID], id: base.id, envPrefix: '' }, ...others];
+};
+
+// No id means the default account
+export const findAccount = (id: string | null): Account | undefined =>
+    getAccounts().find(a => a.id === (id || DEFAULT_ACCOUNT_ID).toLowerCase());
+
+const activeAccount = new AsyncLocalStorage<Account>();
+
+export const runWithAccount = <T>(account: Account, fn: () => T): T => activeAccount.run(account, fn);
+
+// Outside a cron run (public pages, feeds, admin APIs) this is the default account
+export const getAccount = (): Account => activeAccount.getStore() || getAccounts()[0];
+
+export const isDefaultAccount = (): boolean => getAccount().id === DEFAULT_ACCOUNT_ID;
+
+// A setting for the active account, falling back to the shared variable
+export const accountEnv = (name: string): string | undefined => {
+    const { envPrefix } = getAccount();
+    return (envPrefix && process.env[`${envPrefix}${name}`]) || process.env[name];
+};
+
+// A credential of the active account - never shared between accounts
+export const accountSecret = (name: string): string | undefined =>
+    process.env[`${getAccount().envPrefix}${name}`];
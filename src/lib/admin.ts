@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorized } from '@/lib/auth';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+    addOverride,
+    listOverrides,
+    parseOverrideInput,
+    removeOverride,
+    type OverrideTable
+} from '@/lib/overrides';
+
+// GET (list, ?all=1 includes expired), POST { title, reason?, expiresAt? }, DELETE ?id=
+export const createOverrideHandlers = (table: OverrideTable) => {
+    const unauthorized = () => NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    async function GET(request: NextRequest) {
+        if (!isAuthorized(request)) return unauthorized();
+
+        try {
+            const includeExpired = request.nextUrl.searchParams.get('all') === '1';
+            const { overrides, error } = await listOverrides(getSupabaseAdmin(), table, includeExpired);
+            if (error) return NextResponse.json({ error }, { status: 500 });
+
+            return NextResponse.json({ items: overrides });
+        } catch (error: any) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+    }
+
+    async function POST(request: NextRequest) {
+        if (!isAuthorized(request)) return unauthorized();
+
+        try {
+            const body = await request.json().catch(() => null);
+            const input = parseOverrideInput(body);
+            if (typeof input === 'string') {
+                return NextResponse.json({ error: input }, { status: 400 });
+            }
+
+            const { override, error } = await addOverride(getSupabaseAdmin(), table, input);
+            if (error) return NextResponse.json({ error }, { status: 500 });
+
+            return NextResponse.json({ item: override }, { status: 201 });
+        } catch (error: any) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+    }
+
+    async function DELETE(request: NextRequest) {
+        if (!isAuthorized(request)) return unauthorized();
+
+        try {
+            const id = parseInt(request.nextUrl.searchParams.get('id') || '');
+            if (!id) {
+                return NextResponse.json({ error: 'id is required' }, { status: 400 });
+            }
+
+            const { error } = await removeOverride(getSupabaseAdmin(), table, id);
+            if (error) return NextResponse.json({ error }, { status: 500 });
+
+            return NextResponse.json({ deleted: id });
+        } catch (error: any) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+    }
+
+    return { GET, POST, DELETE };
+};
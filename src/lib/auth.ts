@@ -0,0 +1,7 @@
+import type { NextRequest } from 'next/server';
+
+// Shared bearer check for cron and admin routes. A missing CRON_SECRET never authorizes.
+export const isAuthorized = (request: NextRequest): boolean => {
+    const secret = process.env.CRON_SECRET;
+    return !!secret && request.headers.get('authorization') === `Bearer ${secret}`;
+};
@@ -0,0 +1,21 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+// CDN caches for 5 minutes and may serve stale for 10 more while revalidating
+const PUBLIC_CACHE_CONTROL = 'public, max-age=60, s-maxage=300, stale-while-revalidate=600';
+
+// Respond with an ETag, answering 304 when the client already has this body
+export const cachedResponse = (request: NextRequest, body: string, contentType: string): NextResponse => {
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+    const headers = {
+        'Content-Type': contentType,
+        'Cache-Control': PUBLIC_CACHE_CONTROL,
+        ETag: etag
+    };
+
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag)) {
+        return new NextResponse(null, { status: 304, headers });
+    }
+    return new NextResponse(body, { status: 200, headers });
+};
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Deal } from '@/lib/deals';
+import type { RateTable } from '@/lib/pricing';
+import { composeDealCard } from '@/lib/card';
+
+const rates: RateTable = { base: 'USD', rates: { USD: 1, TRY: 35 }, source: 'fallback', fetchedAt: null };
+
+const deal = (name: string): Deal => ({
+    id: `steam-${name}`,
+    name,
+    discount_percent: 75,
+    final_price: 99,
+    currency: 'TRY',
+    platform: 'Steam',
+    url: 'https://store.steampowered.com/app/1',
+    header_image: null
+});
+
+// PNG width and height live in the IHDR chunk
+const pngSize = (buffer: Buffer) => ({ width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) });
+
+const fakeStorage = () => {
+    const upload = vi.fn(async () => ({ error: null }));
+    const client = {
+        storage: { from: () => ({ download: async () => ({ data: null }), upload }) }
+    } as unknown as SupabaseClient;
+    return { client, upload };
+};
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe('composeDealCard', () => {
+    it('renders a 1200x675 PNG placeholder card when there is no artwork', async () => {
+        const { image, source } = await composeDealCard(deal('Placeholder Game'), rates);
+
+        expect(source).toBe('card');
+        expect(image.mimeType).toBe('image/png');
+        expect(pngSize(image.buffer)).toEqual({ width: 1200, height: 675 });
+        expect(image.buffer.length).toBeLessThan(5 * 1024 * 1024);
+    }, 30_000);
+
+    it('draws the card instead of passing on artwork it cannot decode', async () => {
+        const junk = { buffer: Buffer.alloc(6 * 1024 * 1024, 7), mimeType: 'image/jpeg' };
+        const { image, source } = await composeDealCard(deal('Broken Artwork'), rates, junk);
+
+        expect(source).toBe('card');
+        expect(pngSize(image.buffer)).toEqual({ width: 1200, height: 675 });
+    }, 30_000);
+
+    it('uploads rendered cards to CARD_CACHE_BUCKET, except when read-only', async () => {
+        vi.stubEnv('CARD_CACHE_BUCKET', 'cards');
+
+        const dry = fakeStorage();
+        await composeDealCard(deal('Dry Run Game'), rates, undefined, dry.client, { readOnly: true });
+        expect(dry.upload).not.toHaveBeenCalled();
+
+        const live = fakeStorage();
+        await composeDealCard(deal('Live Run Game'), rates, undefined, live.client);
+        expect(live.upload).toHaveBeenCalledOnce();
+    }, 30_000);
+});
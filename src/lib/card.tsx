@@ -0,0 +1,242 @@
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { ImageResponse } from 'next/og';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Deal } from '@/lib/deals';
+import type { PostImage } from '@/lib/publishing';
+import type { RateTable } from '@/lib/pricing';
+import { getCardConfig } from '@/lib/config';
+import { getProviderByPlatform } from '@/lib/providers';
+import { formatPrice } from '@/lib/tweet';
+import { getAccount } from '@/lib/accounts';
+import { getMessages } from '@/lib/i18n';
+
+// Deal cards: store artwork (or a branded placeholder) with discount, price and platform
+// drawn on top. Rendered with next/og using the Inter files in src/assets/fonts and the
+// platform marks in src/assets/logos, so nothing is ever downloaded at runtime.
+
+const CARD_WIDTH = 1200;   // 16:9, Twitter's preferred in-feed ratio
+const CARD_HEIGHT = 675;
+const MAX_CARD_BYTES = 5 * 1024 * 1024; // Twitter image limit
+
+const FONT_DIR = path.join(process.cwd(), 'src/assets/fonts');
+const LOGO_DIR = path.join(process.cwd(), 'src/assets/logos');
+
+type CardFont = { name: string; data: ArrayBuffer; weight: 400 | 800; style: 'normal' };
+let fontsPromise: Promise<CardFont[]> | null = null;
+
+// latin-ext carries Turkish letters and ₺. It needs its own family name: satori only
+// falls back per glyph across different families.
+const loadFonts = (): Promise<CardFont[]> => {
+    fontsPromise ??= Promise.all(
+        (['latin', 'latin-ext'] as const).flatMap(subset =>
+            ([400, 800] as const).map(async weight => {
+                const file = await readFile(path.join(FONT_DIR, `inter-${subset}-${weight}-normal.woff`));
+                const data = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+                return { name: subset === 'latin' ? 'Inter' : 'Inter Ext', data, weight, style: 'normal' as const };
+            })
+        )
+    );
+    return fontsPromise;
+};
+
+// White platform mark as a data URI, by provider id (steam.svg, epic.svg, gog.svg).
+// Sources without a mark (e.g. ITAD shops) get a text-only badge.
+const logos = new Map<string, Promise<string | null>>();
+const loadLogo = (platform: string): Promise<string | null> => {
+    const id = getProviderByPlatform(platform)?.id;
+    if (!id) return Promise.resolve(null);
+
+    if (!logos.has(id)) {
+        logos.set(id, readFile(path.join(LOGO_DIR, `${id}.svg`))
+            .then(svg => `data:image/svg+xml;base64,${svg.toString('base64')}`)
+            .catch(() => null));
+    }
+    return logos.get(id)!;
+};
+
+// Rendered cards for this process; CARD_CACHE_BUCKET keeps them across runs
+const memoryCache = new Map<string, PostImage>();
+const MEMORY_CACHE_SIZE = 50;
+
+const cacheKey = (deal: Deal, priceStr: string): string =>
+    createHash('sha1')
+        .update([deal.id, deal.name, deal.discount_percent, priceStr, deal.header_image,
+            deal.price_stats?.is_historical_low, getAccount().locale].join('|'))
+        .digest('hex');
+
+function CardLayout({ deal, priceStr, artwork, logo }: {
+    deal: Deal;
+    priceStr: string;
+    artwork: string | null;
+    logo: string | null;
+}) {
+    const brandColor = getProviderByPlatform(deal.platform)?.brandColor || '#333333';
+    const isFree = deal.final_price === 0;
+
+    return (
+        <div style={{
+            width: '100%', height: '100%', display: 'flex', position: 'relative',
+            fontFamily: 'Inter, Inter Ext', color: 'white',
+            background: `linear-gradient(135deg, ${brandColor} 0%, #0b0b12 100%)`
+        }}>
+            {artwork ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={artwork} alt="" width={CARD_WIDTH} height={CARD_HEIGHT}
+                    style={{ position: 'absolute', top: 0, left: 0, objectFit: 'cover' }} />
+            ) : (
+                <div style={{
+                    position: 'absolute', top: 140, left: 60, right: 60, display: 'flex',
+                    fontSize: 84, fontWeight: 800, lineHeight: 1.05, opacity: 0.9
+                }}>
+                    {deal.name}
+                </div>
+            )}
+
+            <div style={{
+                position: 'absolute', top: 36, left: 36, display: 'flex', alignItems: 'center', gap: 14,
+                padding: '10px 24px', borderRadius: 999, background: brandColor,
+                fontSize: 30, fontWeight: 800, letterSpacing: 1, border: '2px solid rgba(255,255,255,0.35)'
+            }}>
+                {logo && (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={logo} alt="" width={36} height={36} />
+                )}
+                {deal.platform.toUpperCase()}
+            </div>
+
+            {deal.price_stats?.is_historical_low && !isFree && (
+                <div style={{
+                    position: 'absolute', top: 36, right: 36, display: 'flex',
+                    padding: '10px 24px', borderRadius: 12, background: '#f5b301', color: '#1a1a1a',
+                    fontSize: 28, fontWeight: 800
+                }}>
+                    {getMessages().cardHistoricalLow}
+                </div>
+            )}
+
+            <div style={{
+                position: 'absolute', left: 0, right: 0, bottom: 0, height: 220,
+                display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between',
+                padding: '0 36px 36px 36px',
+                background: 'linear-gradient(to bottom, rgba(0,0,0,0) 0%, rgba(0,0,0,0.85) 55%)'
+            }}>
+                <div style={{
+                    display: 'flex', maxWidth: 640, fontSize: 44, fontWeight: 800, lineHeight: 1.1
+                }}>
+                    {artwork ? deal.name : ''}
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+                    <div style={{
+                        display: 'flex', padding: '12px 22px', borderRadius: 12,
+                        background: '#4caf50', fontSize: 56, fontWeight: 800
+                    }}>
+                        {isFree ? getMessages().free : getMessages().cardDiscount(deal.discount_percent)}
+                    </div>
+                    {!isFree && (
+                        <div style={{
+                            display: 'flex', padding: '12px 22px', borderRadius: 12,
+                            background: 'rgba(255,255,255,0.95)', color: '#111111', fontSize: 56, fontWeight: 800
+                        }}>
+                            {priceStr}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+const toDataUri = (image: PostImage) => `data:${image.mimeType};base64,${image.buffer.toString('base64')}`;
+
+async function renderPng(element: JSX.Element): Promise<PostImage> {
+    const response = new ImageResponse(element, { width: CARD_WIDTH, height: CARD_HEIGHT, fonts: await loadFonts() });
+    return { buffer: Buffer.from(await response.arrayBuffer()), mimeType: 'image/png' };
+}
+
+async function renderCard(deal: Deal, priceStr: string, artwork?: PostImage): Promise<PostImage> {
+    return renderPng(
+        <CardLayout deal={deal} priceStr={priceStr} artwork={artwork ? toDataUri(artwork) : null}
+            logo={await loadLogo(deal.platform)} />
+    );
+}
+
+// Last resort when the card itself can't be drawn: the bare artwork, redrawn at card size so
+// a huge store image is never posted as-is. Artwork satori can't decode is only used when
+// it's already within the limit.
+async function fitArtwork(artwork: PostImage): Promise<PostImage> {
+    try {
+        const resized = await renderPng(
+            <div style={{ width: '100%', height: '100%', display: 'flex', background: '#0b0b12' }}>
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={toDataUri(artwork)} alt="" width={CARD_WIDTH} height={CARD_HEIGHT} style={{ objectFit: 'cover' }} />
+            </div>
+        );
+        if (resized.buffer.length <= MAX_CARD_BYTES) return resized;
+    } catch (e) {
+        console.error('Artwork resize failed:', e);
+    }
+
+    if (artwork.buffer.length <= MAX_CARD_BYTES) return artwork;
+    throw new Error(`Artwork too large (${artwork.buffer.length} bytes)`);
+}
+
+async function readStoredCard(supabaseAdmin: SupabaseClient, bucket: string, key: string): Promise<PostImage | null> {
+    const { data } = await supabaseAdmin.storage.from(bucket).download(`${key}.png`);
+    return data ? { buffer: Buffer.from(await data.arrayBuffer()), mimeType: 'image/png' } : null;
+}
+
+// Compose (or reuse) the card for a deal. Falls back to the artwork resized to card size when
+// rendering fails or the card would be too big, and only throws when there's nothing within
+// the limit to post. readOnly reads CARD_CACHE_BUCKET but never uploads (dry runs).
+export async function composeDealCard(
+    deal: Deal,
+    rates: RateTable,
+    artwork?: PostImage,
+    supabaseAdmin?: SupabaseClient,
+    { readOnly = false }: { readOnly?: boolean } = {}
+): Promise<{ image: PostImage; source: 'card' | 'cache' | 'artwork' }> {
+    const { cacheBucket } = getCardConfig();
+    const priceStr = formatPrice(deal, rates).replace('🆓 ', '');
+    const key = cacheKey(deal, priceStr);
+
+    const cached = memoryCache.get(key) ||
+        (supabaseAdmin && cacheBucket ? await readStoredCard(supabaseAdmin, cacheBucket, key) : null);
+    if (cached) return { image: cached, source: 'cache' };
+
+    try {
+        let card: PostImage;
+        try {
+            card = await renderCard(deal, priceStr, artwork);
+        } catch (e) {
+            if (!artwork) throw e;
+            // Artwork satori can't decode (e.g. webp) - draw the placeholder design instead
+            console.error(`Card artwork unusable for ${deal.name}:`, e);
+            card = await renderCard(deal, priceStr);
+        }
+
+        if (card.buffer.length > MAX_CARD_BYTES) {
+            if (artwork) return { image: await fitArtwork(artwork), source: 'artwork' };
+            throw new Error(`Card too large (${card.buffer.length} bytes)`);
+        }
+
+        if (memoryCache.size >= MEMORY_CACHE_SIZE) {
+            memoryCache.delete(memoryCache.keys().next().value as string);
+        }
+        memoryCache.set(key, card);
+
+        if (supabaseAdmin && cacheBucket && !readOnly) {
+            const { error } = await supabaseAdmin.storage
+                .from(cacheBucket)
+                .upload(`${key}.png`, card.buffer, { contentType: 'image/png', upsert: true });
+            if (error) console.error('Card cache write failed:', error.message);
+        }
+
+        return { image: card, source: 'card' };
+    } catch (e) {
+        console.error(`Card render failed for ${deal.name}:`, e);
+        if (artwork) return { image: await fitArtwork(artwork), source: 'artwork' };
+        throw e;
+    }
+}
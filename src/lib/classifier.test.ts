@@ -0,0 +1,115 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import type { ContentType } from '@/lib/deals';
+import { classifyDeal } from '@/lib/classifier';
+
+// Every title from test-output-full.txt (an ITAD run where the old junk filter let
+// licences and soundtracks through) with what it actually is
+const EXPECTED: Record<string, ContentType> = {
+    'Two Worlds II HD - Call of the Tenebrae - Commercial License': 'software',
+    'Z.I.O.N. - Commercial License': 'software',
+    'Fallen - Commercial License': 'software',
+    'Counter Terrorism - Minesweeper - Commercial License': 'software',
+    'Paladin (1988)': 'game',
+    'Super Dungeon Boy - Commercial License': 'software',
+    'Boreal Blade - Commercial License': 'software',
+    'Cross Board SOCCER - Commercial License': 'software',
+    'Business Wars - The Card Game - Commercial License': 'software',
+    'Pure Farming 2018 - Commercial License': 'software',
+    "Rage in Peace Collector's Edition": 'game',
+    'Two Worlds Epic Edition Complete': 'game',
+    'Meridian4 Bundle': 'bundle',
+    'BROK The InvestiGator + Soundtrack': 'bundle',
+    'Maid of Sker Bundle': 'bundle',
+    'Resolutiion OST': 'soundtrack',
+    'Pixelsplit Horror Bundle': 'bundle',
+    'GRIME - Score': 'soundtrack',
+    'Kitaria Fables - Festive Christmas Outfit': 'dlc',
+    'GYLT Game + Original Soundtrack': 'bundle',
+    'Soulstone Survivors + Soundtrack Bundle': 'bundle',
+    'The Metronomicon - Chiptune Pack 2': 'soundtrack',
+    'Resolutiion OST - The Last Website': 'soundtrack',
+    'We Were Here Too: Original Soundtrack': 'soundtrack',
+    'Teppo and The Secret Ancient City Soundtrack': 'soundtrack',
+    'The Symbiant - Artbook & CG Pack': 'dlc',
+    'Dreams in the Witch House Bundle': 'bundle',
+    'Wavecade - Effect Color Pack': 'dlc',
+    'Settle & Carlisle DLC or Standalone': 'dlc',
+    'The Symbiant + The Symbiant Re:Union Bundle': 'bundle',
+    'EON ALTAR - Episodes 1 + 2 - The Battle for Tarnum + Whispers in the Catacombs': 'bundle',
+    'ATV Drifts & Tricks': 'game',
+    'Guns of Icarus Online 4-Pack': 'bundle',
+    'Traveller Classic RPG Collection': 'game',
+    'Digiarty AI Powered Image & Video Editing Bundle': 'software',
+    'The Journey Down Chapter 2': 'game',
+    'Craft of Gods - Edition Deluxe': 'game',
+    'World of Warcraft - Subscription - 6-Month Special Offer': 'software'
+};
+
+// "1. [game] <title> - Score: ...", "SKIP: <title> - Junk/DLC filter", "MATCH CANDIDATE: <title> [dlc] - Score: ..."
+const LINE_PATTERNS = [
+    /^\d+\. \[\w+\] (.+) - Score: /,
+    /^SKIP: (.+) - Junk\/DLC filter$/,
+    /^MATCH CANDIDATE: (.+) \[\w+\] - Score: /
+];
+
+const corpusTitles = (): string[] => {
+    const text = readFileSync(path.join(__dirname, '../../test-output-full.txt'), 'utf8');
+    const titles = text.split('\n').flatMap(line => {
+        const match = LINE_PATTERNS.map(p => line.match(p)).find(Boolean);
+        return match ? [match[1]] : [];
+    });
+    return Array.from(new Set(titles));
+};
+
+describe('classifyDeal', () => {
+    const titles = corpusTitles();
+
+    it('has an expected type for every title in test-output-full.txt', () => {
+        expect(titles.length).toBeGreaterThan(0);
+        expect(titles.filter(t => !(t in EXPECTED))).toEqual([]);
+    });
+
+    it.each(titles)('classifies %s', title => {
+        expect(classifyDeal({ name: title }).type).toBe(EXPECTED[title]);
+    });
+
+    it.each<[string, ContentType]>([
+        ['Fallen - Commercial License', 'software'],
+        ['The Symbiant - Artbook & CG Pack', 'dlc'],
+        ['Wavecade - Effect Color Pack', 'dlc'],
+        ['BROK The InvestiGator + Soundtrack', 'bundle'],
+        ['Guns of Icarus Online 4-Pack', 'bundle'],
+        ['World of Warcraft - Subscription - 6-Month Special Offer', 'software'],
+        ['GRIME - Score', 'soundtrack']
+    ])('catches the pattern in %s', (title, type) => {
+        expect(classifyDeal({ name: title })).toMatchObject({ type, source: 'title' });
+    });
+
+    it('does not mistake titles that merely contain pattern words for non-games', () => {
+        expect(classifyDeal({ name: 'Paladin (1988)' })).toEqual({ type: 'game', source: 'default' });
+        expect(classifyDeal({ name: 'Scoregasm' }).type).toBe('game');
+    });
+
+    describe('store_type', () => {
+        it('wins when the store says the product is not a game', () => {
+            expect(classifyDeal({ name: 'Craft of Gods - Edition Deluxe', store_type: 'dlc' }))
+                .toEqual({ type: 'dlc', source: 'store' });
+            expect(classifyDeal({ name: 'Paladin (1988)', store_type: 'soundtrack' }))
+                .toEqual({ type: 'soundtrack', source: 'store' });
+        });
+
+        it('still lets the title override a store that says "game"', () => {
+            expect(classifyDeal({ name: 'Z.I.O.N. - Commercial License', store_type: 'game' }))
+                .toMatchObject({ type: 'software', source: 'title' });
+            expect(classifyDeal({ name: 'GRIME - Score', store_type: 'game' }))
+                .toMatchObject({ type: 'soundtrack', source: 'title' });
+        });
+
+        it('reports the store as the source for a plain game it labelled', () => {
+            expect(classifyDeal({ name: 'ATV Drifts & Tricks', store_type: 'game' }))
+                .toEqual({ type: 'game', source: 'store' });
+        });
+    });
+});
@@ -0,0 +1,56 @@
+import type { ContentType, Deal } from '@/lib/deals';
+import { getContentConfig } from '@/lib/config';
+
+// Title patterns, checked in order - the first match wins.
+// Software goes first so licence SKUs called "... Bundle" aren't treated as game bundles,
+// and bundles go before soundtracks so "Game + Soundtrack" counts as a bundle.
+const TITLE_PATTERNS: [ContentType, RegExp][] = [
+    ['software', /\bcommercial license\b/i],
+    ['software', /\bsubscription\b/i],
+    ['software', /\b(image|video|photo|audio)\b.*\bedit(ing|or)\b/i],
+    ['software', /\b(software|toolkit|wallpaper engine)\b/i],
+
+    ['bundle', /\bbundle\b/i],
+    ['bundle', /\s\+\s/],                       // "GYLT Game + Original Soundtrack"
+    ['bundle', /\b\d+-pack\b/i],                // "Guns of Icarus Online 4-Pack"
+
+    ['soundtrack', /\bsoundtrack\b/i],
+    ['soundtrack', /\bost\b/i],
+    ['soundtrack', /\b(original )?score$/i],    // "GRIME - Score"
+    ['soundtrack', /\b(music|chiptune) pack\b/i],
+
+    ['dlc', /\bdlc\b/i],
+    ['dlc', /\bseason pass\b/i],
+    ['dlc', /\bexpansion( pass)?\b/i],
+    ['dlc', /\bartbook\b/i],
+    ['dlc', /\bcg pack\b/i],
+    ['dlc', /\b(color|colour|skin|costume|outfit|cosmetic|character|weapon|voice|sticker) pack\b/i],
+    ['dlc', /\boutfit\b/i],
+    ['dlc', /\b(upgrade|supporter pack)\b/i]
+];
+
+export interface Classification {
+    type: ContentType;
+    source: 'title' | 'store' | 'default';
+    pattern?: string;
+}
+
+// Store metadata is trusted when it says the product isn't a plain game.
+// When it says "game" (or says nothing) the title still gets a look, because stores
+// happily label "Commercial License" SKUs and OST packs as games.
+export const classifyDeal = (deal: Pick<Deal, 'name' | 'store_type'>): Classification => {
+    if (deal.store_type && deal.store_type !== 'game') {
+        return { type: deal.store_type, source: 'store' };
+    }
+
+    for (const [type, pattern] of TITLE_PATTERNS) {
+        if (pattern.test(deal.name)) {
+            return { type, source: 'title', pattern: pattern.source };
+        }
+    }
+
+    return { type: 'game', source: deal.store_type ? 'store' : 'default' };
+};
+
+export const isPostableType = (type: ContentType): boolean =>
+    getContentConfig().postableTypes.includes(type);
@@ -0,0 +1,250 @@
+import { accountEnv, getAccount } from '@/lib/accounts';
+
+// Runtime configuration read from environment variables. Settings that can differ per
+// posting account go through accountEnv (US_SCHEDULE_POLICY before SCHEDULE_POLICY, see accounts.ts).
+
+const parseList = (value: string | undefined): string[] =>
+    (value || '')
+        .split(',')
+        .map(item => item.trim().toLowerCase())
+        .filter(Boolean);
+
+// ============ PROVIDERS ============
+// ENABLED_PROVIDERS=steam,gog limits fetching to the listed stores (default: all)
+// DISABLED_PROVIDERS=epic turns individual stores off
+export const getProviderConfig = () => ({
+    enabled: parseList(accountEnv('ENABLED_PROVIDERS')),
+    disabled: parseList(accountEnv('DISABLED_PROVIDERS'))
+});
+
+// ============ SCORING ============
+export interface ScoringWeights {
+    discount: number;
+    savings: number;
+    metacritic: number;
+    gogReviews: number;
+    steamReviews: number;
+    popularity: number;
+    recency: number;
+    historicalLow: number;
+    engagement: number;     // How past posts like this one did, see engagement.ts
+}
+
+const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+    discount: 30,
+    savings: 15,
+    metacritic: 20,
+    gogReviews: 10,
+    steamReviews: 15,
+    popularity: 10,
+    recency: 20,
+    historicalLow: 15,
+    engagement: 10
+};
+
+// SCORING_WEIGHTS='{"discount":40,"metacritic":10}' overrides individual weights
+export const getScoringConfig = () => {
+    let overrides: Partial<ScoringWeights> = {};
+    const weights = accountEnv('SCORING_WEIGHTS');
+    if (weights) {
+        try {
+            overrides = JSON.parse(weights);
+        } catch (e) {
+            console.error('Invalid SCORING_WEIGHTS, using defaults:', e);
+        }
+    }
+
+    return {
+        weights: { ...DEFAULT_SCORING_WEIGHTS, ...overrides },
+        savingsCapTL: Number(accountEnv('SCORING_SAVINGS_CAP_TL')) || 1500, // Savings above this score the same
+        recencyDays: Number(accountEnv('SCORING_RECENCY_DAYS')) || 30        // Posts older than this are not penalized
+    };
+};
+
+// ============ CONTENT TYPES ============
+// POSTABLE_CONTENT_TYPES=game,bundle - everything else is skipped (default: games only)
+export const getContentConfig = () => {
+    const postable = parseList(accountEnv('POSTABLE_CONTENT_TYPES'));
+    return {
+        postableTypes: postable.length > 0 ? postable : ['game']
+    };
+};
+
+// ============ PUBLISHERS ============
+// A publisher runs when its credentials are set. DISABLED_PUBLISHERS=discord,mastodon
+// turns configured channels off without removing their secrets.
+export const getPublisherConfig = () => ({
+    disabled: parseList(accountEnv('DISABLED_PUBLISHERS'))
+});
+
+// ============ PRICE HISTORY ============
+// HISTORY_MIN_DAYS: how much history a game needs before we call a price its all-time low
+export const getHistoryConfig = () => ({
+    minHistoryDays: Number(process.env.HISTORY_MIN_DAYS) || 30
+});
+
+// ============ PRICING ============
+// TARGET_CURRENCY: currency the default account posts in (default TRY); other accounts set
+// theirs in ACCOUNTS
+// PUBLISHER_CURRENCIES='{"mastodon":"EUR","bluesky":"USD"}' prices individual channels
+// in another region's currency within the same run
+// SHOW_ORIGINAL_PRICE=1 adds the pre-discount price next to the sale price
+export const getPricingConfig = () => {
+    let publisherCurrencies: Record<string, string> = {};
+    const currencies = accountEnv('PUBLISHER_CURRENCIES');
+    if (currencies) {
+        try {
+            publisherCurrencies = JSON.parse(currencies);
+        } catch (e) {
+            console.error('Invalid PUBLISHER_CURRENCIES, using defaults:', e);
+        }
+    }
+
+    const targetCurrency = getAccount().currency;
+    const showOriginal = accountEnv('SHOW_ORIGINAL_PRICE');
+    return {
+        targetCurrency,
+        currencyFor: (publisherId: string) => (publisherCurrencies[publisherId] || targetCurrency).toUpperCase(),
+        showOriginalPrice: showOriginal === '1' || showOriginal === 'true',
+        rateTtlHours: Number(process.env.EXCHANGE_RATE_TTL_HOURS) || 12
+    };
+};
+
+// ============ SCHEDULE ============
+export interface ScheduleEvent {
+    name: string;
+    start: string;   // ISO date/time, e.g. "2026-06-25T17:00:00Z"
+    end: string;
+    maxPostsPerRun?: number;
+    dailyBudget?: number;
+    platformBudgets?: Record<string, number>;
+    minGapMinutes?: number;   // Default: 0 when maxPostsPerRun is above 1, else the base gap
+}
+
+export interface SchedulePolicy {
+    maxPostsPerRun: number;                   // Only applies when minGapMinutes is 0, see planRun
+    dailyBudget: number;
+    platformBudgets: Record<string, number>;  // Per platform display name, e.g. { "GOG": 3 }
+    quietHours: { start: number; end: number } | null;  // Account time zone, start inclusive, end exclusive
+    minGapMinutes: number;                    // Between any two posts, in a run or across runs
+    events: ScheduleEvent[];                  // Sales that override the limits above while active
+}
+
+const DEFAULT_SCHEDULE_POLICY: SchedulePolicy = {
+    maxPostsPerRun: 1,
+    dailyBudget: 12,
+    platformBudgets: {},
+    quietHours: { start: 2, end: 8 },
+    minGapMinutes: 45,
+    events: []
+};
+
+// Posts within one run go out seconds apart, so a run only posts more than one deal when
+// minGapMinutes is 0. An event that raises maxPostsPerRun turns the gap off for its duration
+// unless it sets minGapMinutes itself:
+// SCHEDULE_POLICY='{"dailyBudget":8,"events":[{"name":"Steam Summer Sale","start":"...","end":"...","maxPostsPerRun":3}]}'
+export const getSchedulePolicy = (): SchedulePolicy => {
+    const policy = accountEnv('SCHEDULE_POLICY');
+    if (!policy) return DEFAULT_SCHEDULE_POLICY;
+    try {
+        return { ...DEFAULT_SCHEDULE_POLICY, ...JSON.parse(policy) };
+    } catch (e) {
+        console.error('Invalid SCHEDULE_POLICY, using defaults:', e);
+        return DEFAULT_SCHEDULE_POLICY;
+    }
+};
+
+// ============ DEAL CARDS ============
+// DEAL_CARDS=0 posts the raw store artwork instead of a generated card
+// CARD_CACHE_BUCKET: Supabase Storage bucket that keeps rendered cards across runs
+export const getCardConfig = () => ({
+    enabled: !['0', 'false'].includes(accountEnv('DEAL_CARDS') || ''),
+    cacheBucket: process.env.CARD_CACHE_BUCKET || null
+});
+
+// ============ RUN HEALTH ============
+// HEALTH_EMPTY_RUNS: consecutive runs a store may return no deals before /api/runs flags it
+export const getHealthConfig = () => ({
+    emptyRunThreshold: Number(process.env.HEALTH_EMPTY_RUNS) || 3
+});
+
+// ============ STORAGE ============
+// STORAGE_BACKEND=memory keeps posted_games in the running process instead of Supabase
+// (local development and tests) and runs without Supabase at all: overrides, price history,
+// cached rates, run records, delivery logs, free-game tracking and wishlist alerts are
+// skipped. Default: supabase. Schema: supabase/migrations
+export const getStorageConfig = () => ({
+    backend: process.env.STORAGE_BACKEND === 'memory' ? 'memory' as const : 'supabase' as const
+});
+
+// ============ ENGAGEMENT ============
+// METRICS_DAYS: how far back /api/metrics refreshes post metrics (Twitter reports link
+// clicks for 30 days, so that's the cap). ENGAGEMENT_DAYS: posts the report and the
+// engagement score learn from. ENGAGEMENT_MIN_POSTS: posts a group (e.g. "GOG" or
+// "75-89%") needs before it moves scores.
+export const getEngagementConfig = () => ({
+    metricsDays: Math.min(Number(process.env.METRICS_DAYS) || 7, 30),
+    reportDays: Number(accountEnv('ENGAGEMENT_DAYS')) || 30,
+    minGroupPosts: Number(accountEnv('ENGAGEMENT_MIN_POSTS')) || 5
+});
+
+// ============ HTTP ============
+// HTTP_MODE: live (default), record (live + save store responses to HTTP_FIXTURES_DIR)
+// or replay (serve only from HTTP_FIXTURES_DIR, never touch the network)
+// HTTP_HOST_POLICIES='{"catalog.gog.com":{"timeoutMs":15000,"retries":1}}' tunes single hosts
+export interface HostPolicy {
+    timeoutMs: number;
+    retries: number;             // Extra attempts after the first
+    breakerThreshold: number;    // Consecutive failures that open the circuit
+    breakerCooldownMs: number;   // How long an open circuit fails fast
+}
+
+const DEFAULT_HOST_POLICY: HostPolicy = {
+    timeoutMs: 10000,
+    retries: 2,
+    breakerThreshold: 5,
+    breakerCooldownMs: 60 * 1000
+};
+
+// Store APIs answer in well under a second when healthy; give up on a hung one sooner
+const HOST_POLICY_DEFAULTS: Record<string, Partial<HostPolicy>> = {
+    'store.steampowered.com': { timeoutMs: 8000 },
+    'store-site-backend-static.ak.epicgames.com': { timeoutMs: 8000 },
+    'www.cheapshark.com': { timeoutMs: 8000, retries: 3 }   // Rate limits in bursts
+};
+
+export const getHttpConfig = () => {
+    let hostPolicies: Record<string, Partial<HostPolicy>> = {};
+    if (process.env.HTTP_HOST_POLICIES) {
+        try {
+            hostPolicies = JSON.parse(process.env.HTTP_HOST_POLICIES);
+        } catch (e) {
+            console.error('Invalid HTTP_HOST_POLICIES, using defaults:', e);
+        }
+    }
+
+    const mode = process.env.HTTP_MODE;
+    return {
+        mode: mode === 'record' || mode === 'replay' ? mode : 'live',
+        fixturesDir: process.env.HTTP_FIXTURES_DIR || 'fixtures/http',
+        policyFor: (host: string): HostPolicy => ({
+            ...DEFAULT_HOST_POLICY,
+            ...HOST_POLICY_DEFAULTS[host],
+            ...hostPolicies[host]
+        })
+    };
+};
+
+// ============ ISTHEREANYDEAL ============
+// ITAD_API_KEY turns on the ITAD deal source and the historical-low lookups for store deals.
+// ITAD_API_URL can point at a local stand-in. ITAD_SHOPS: ITAD shop IDs the deal source
+// reads (61 Steam, 16 Epic, 35 GOG). ITAD_COUNTRY picks the price region (default: the account's).
+export const getItadConfig = () => {
+    const shops = parseList(process.env.ITAD_SHOPS).map(Number).filter(Boolean);
+    return {
+        apiKey: process.env.ITAD_API_KEY || null,
+        apiUrl: (process.env.ITAD_API_URL || 'https://api.isthereanydeal.com').replace(/\/$/, ''),
+        country: (accountEnv('ITAD_COUNTRY') || getAccount().region).toUpperCase(),
+        shops: shops.length > 0 ? shops : [61, 16, 35]
+    };
+};
@@ -0,0 +1,64 @@
+// Shared deal model used by every store provider and the cron pipeline
+export type ContentType = 'game' | 'dlc' | 'soundtrack' | 'bundle' | 'software';
+
+// Which announcement a free-game window is getting: before it starts, while it runs, last day
+export type FreeWindowPhase = 'upcoming' | 'live' | 'ending';
+
+export interface Deal {
+    id: string;
+    name: string;
+    discount_percent: number;
+    final_price: number;
+    currency: string;
+    platform: string;
+    url: string;
+    header_image: string | null;
+    metacritic?: number;
+    // Optional quality signals used by scoring - providers fill in what their API exposes
+    original_price?: number;
+    reviews_count?: number;          // GOG reviewsCount
+    steam_review_percent?: number;   // 0-100 positive
+    steam_review_count?: number;
+    popularity?: number;             // 0-1, store-specific (e.g. top seller position)
+    store_type?: ContentType;        // What the store itself says this product is, if it says
+    // Store IDs used to recognise the same game across stores (see identity.ts)
+    external_ids?: {
+        steam?: string;   // Steam app ID, also carried by CheapShark deals
+        gog?: string;
+        epic?: string;    // Epic catalog namespace
+        itad?: string;    // IsThereAnyDeal game ID, set by the ITAD source and enrichment
+    };
+    canonical_id?: string;           // Set during dedupe, stored in posted_games.game_id
+    itad_low?: {                     // All-time low according to IsThereAnyDeal
+        amount: number;
+        currency: string;
+    };
+    price_stats?: {                  // From price_history, in the deal's currency
+        all_time_low: number;
+        low_90d: number | null;
+        last_sale_at: string | null;
+        is_historical_low: boolean;
+        is_90d_low: boolean;
+    };
+    free_window?: {                  // Time-limited free game (Epic), see promotions.ts
+        starts_at: string;
+        ends_at: string;
+        phase: FreeWindowPhase;
+    };
+}
+
+export interface DealProvider {
+    id: string;            // Config key, e.g. 'steam'
+    platform: string;      // Display name used in tweets and logs
+    emoji: string;
+    brandColor: string;    // Platform badge colour on generated deal cards
+    // Currency the store prices in when a deal doesn't say otherwise.
+    // USD prices are converted to TL before posting, anything else is shown as-is.
+    defaultCurrency: string;
+    isConfigured?(): boolean;   // Sources that need credentials; unset means always available
+    fetchDeals(): Promise<Deal[]>;
+}
+
+// Normalize names by removing special characters for better matching
+export const normalizeGameName = (name: string) =>
+    name.toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
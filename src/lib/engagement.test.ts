@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Deal } from '@/lib/deals';
+import type { NewPostedGame, Storage } from '@/lib/repository';
+import type { RateTable } from '@/lib/pricing';
+import { createMemoryStorage } from '@/lib/repositories/memory';
+import {
+    collectMetrics,
+    expectedLift,
+    loadEngagementReport,
+    toEngagementModel,
+    type MetricsClient,
+    type PostMetrics
+} from '@/lib/engagement';
+
+// Metrics collection and the engagement report over the in-memory storage, with a stub
+// standing in for the Twitter API
+
+const NOW = new Date('2026-06-10T12:00:00Z');
+const rates: RateTable = { base: 'USD', rates: { USD: 1, TRY: 35 }, source: 'fallback', fetchedAt: null };
+
+const metrics = (likes: number, link_clicks: number | null = null): PostMetrics =>
+    ({ likes, reposts: 0, replies: 0, quotes: 0, impressions: null, link_clicks });
+
+const stubClient = (byTweet: Record<string, PostMetrics>): MetricsClient & { fetchMetrics: ReturnType<typeof vi.fn> } => ({
+    id: 'stub',
+    isConfigured: () => true,
+    fetchMetrics: vi.fn(async (ids: string[]) =>
+        new Map(ids.filter(id => byTweet[id]).map(id => [id, byTweet[id]])))
+});
+
+let storage: Storage;
+
+// Inserted `daysAgo` before NOW (the memory backend stamps rows with the current time)
+const post = async (daysAgo: number, overrides: Partial<NewPostedGame>): Promise<number> => {
+    vi.setSystemTime(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000);
+    const { id } = await storage.postedGames.insert({
+        account: 'tr',
+        app_id: 0,
+        game_id: null,
+        game_title: 'game',
+        platform: 'Steam',
+        price_usd: 10,
+        discount_percent: 50,
+        tweet_id: null,
+        format: 'single',
+        ...overrides
+    });
+    vi.setSystemTime(NOW);
+    return id!;
+};
+
+beforeEach(() => {
+    storage = createMemoryStorage();
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+});
+
+describe('collectMetrics', () => {
+    it('refreshes single posts from the last METRICS_DAYS for the active account', async () => {
+        const recent = await post(1, { tweet_id: 't1' });
+        await post(2, { tweet_id: null });                  // Thread or digest
+        await post(10, { tweet_id: 't-old' });              // Outside the default 7 days
+        await post(1, { tweet_id: 't-us', account: 'us' });
+        const client = stubClient({ t1: metrics(12, 3) });
+
+        const result = await collectMetrics(storage, client, NOW);
+
+        expect(result).toEqual({ checked: 1, updated: 1 });
+        expect(client.fetchMetrics).toHaveBeenCalledWith(['t1']);
+        const { metrics: saved } = await storage.postMetrics.listFor([recent]);
+        expect(saved).toEqual([{ posted_game_id: recent, ...metrics(12, 3), collected_at: NOW.toISOString() }]);
+    });
+
+    it('follows METRICS_DAYS', async () => {
+        vi.stubEnv('METRICS_DAYS', '14');
+        await post(10, { tweet_id: 't-old' });
+        const client = stubClient({ 't-old': metrics(1) });
+
+        expect(await collectMetrics(storage, client, NOW)).toEqual({ checked: 1, updated: 1 });
+    });
+
+    it('counts posts the client has no metrics for as checked, not updated', async () => {
+        await post(1, { tweet_id: 't1' });
+        await post(1, { tweet_id: 'deleted' });
+
+        expect(await collectMetrics(storage, stubClient({ t1: metrics(1) }), NOW)).toEqual({ checked: 2, updated: 1 });
+    });
+
+    it('skips the client when there is nothing to check', async () => {
+        await post(1, { tweet_id: null });
+        const client = stubClient({});
+
+        expect(await collectMetrics(storage, client, NOW)).toEqual({ checked: 0, updated: 0 });
+        expect(client.fetchMetrics).not.toHaveBeenCalled();
+    });
+
+    it('reports client failures instead of throwing', async () => {
+        await post(1, { tweet_id: 't1' });
+        const client = stubClient({});
+        client.fetchMetrics.mockRejectedValue(new Error('Twitter 429'));
+
+        expect(await collectMetrics(storage, client, NOW)).toEqual({ checked: 1, updated: 0, error: 'Twitter 429' });
+    });
+});
+
+describe('engagement report', () => {
+    it('breaks collected metrics down by trait and feeds the scoring model', async () => {
+        // GOG posts did three times as well as Steam posts
+        for (let i = 0; i < 3; i++) {
+            await post(1, { tweet_id: `gog${i}`, platform: 'GOG' });
+            await post(1, { tweet_id: `steam${i}`, platform: 'Steam' });
+        }
+        const client = stubClient(Object.fromEntries([0, 1, 2].flatMap(i => [
+            [`gog${i}`, metrics(30)],
+            [`steam${i}`, metrics(10)]
+        ])));
+        await collectMetrics(storage, client, NOW);
+
+        const { report } = await loadEngagementReport(storage);
+
+        expect(report).toMatchObject({ account: 'tr', posts: 6, averageEngagement: 20 });
+        expect(report!.breakdown.platform).toEqual([
+            expect.objectContaining({ key: 'GOG', posts: 3, likes: 30, lift: 1.5 }),
+            expect.objectContaining({ key: 'Steam', posts: 3, likes: 10, lift: 0.5 })
+        ]);
+
+        // Groups below ENGAGEMENT_MIN_POSTS don't move scores
+        expect(toEngagementModel(report!, 5).platform).toEqual({});
+        const model = toEngagementModel(report!, 3);
+        const deal = { platform: 'GOG', discount_percent: 50, final_price: 10, currency: 'USD' } as Deal;
+        // GOG 1.5, and the 50-74% and $5-15 and paid groups cover every post (lift 1)
+        expect(expectedLift(deal, model, rates)).toBeCloseTo((1.5 + 1 + 1 + 1) / 4);
+    });
+});
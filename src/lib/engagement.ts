@@ -0,0 +1,231 @@
+import type { Deal } from '@/lib/deals';
+import type { PostedGameRow, PostMetricsRow, Storage } from '@/lib/repository';
+import { getEngagementConfig } from '@/lib/config';
+import { accountSecret, getAccount } from '@/lib/accounts';
+import { convert, salePrice, type RateTable } from '@/lib/pricing';
+import { localHour } from '@/lib/schedule';
+import { getTwitterClient } from '@/lib/twitter';
+
+// Engagement feedback: /api/metrics pulls likes, reposts, replies and link clicks for recent
+// single posts, /api/engagement breaks them down by deal traits, and the scoring weight
+// "engagement" favours deals whose traits did well. Only single posts carry a tweet ID;
+// threads and digests are about the format, not one deal.
+
+const TWEET_BATCH = 100;   // Twitter lookup limit
+
+export interface PostMetrics {
+    likes: number;
+    reposts: number;
+    replies: number;
+    quotes: number;
+    impressions: number | null;
+    link_clicks: number | null;
+}
+
+// Where metrics come from; collectMetrics takes any implementation so tests can pass a stub
+export interface MetricsClient {
+    id: string;
+    isConfigured(): boolean;
+    fetchMetrics(postIds: string[]): Promise<Map<string, PostMetrics>>;
+}
+
+export const twitterMetricsClient: MetricsClient = {
+    id: 'twitter',
+
+    isConfigured: () =>
+        !!(accountSecret('TWITTER_APP_KEY') && accountSecret('TWITTER_APP_SECRET') &&
+            accountSecret('TWITTER_ACCESS_TOKEN') && accountSecret('TWITTER_ACCESS_SECRET')),
+
+    async fetchMetrics(postIds) {
+        const client = getTwitterClient();
+        const metrics = new Map<string, PostMetrics>();
+
+        for (let i = 0; i < postIds.length; i += TWEET_BATCH) {
+            const ids = postIds.slice(i, i + TWEET_BATCH);
+            // Link clicks are non-public metrics, only available to the author for 30 days.
+            // If Twitter refuses them, public metrics still count.
+            const result = await client.v2.tweets(ids, { 'tweet.fields': ['public_metrics', 'non_public_metrics'] })
+                .catch(() => client.v2.tweets(ids, { 'tweet.fields': ['public_metrics'] }));
+
+            for (const tweet of result.data || []) {
+                const pub = tweet.public_metrics;
+                metrics.set(tweet.id, {
+                    likes: pub?.like_count || 0,
+                    reposts: pub?.retweet_count || 0,
+                    replies: pub?.reply_count || 0,
+                    quotes: pub?.quote_count || 0,
+                    impressions: tweet.non_public_metrics?.impression_count ?? pub?.impression_count ?? null,
+                    link_clicks: tweet.non_public_metrics?.url_link_clicks ?? null
+                });
+            }
+        }
+
+        return metrics;
+    }
+};
+
+// Refresh metrics for the active account's posts from the last METRICS_DAYS
+export async function collectMetrics(
+    storage: Storage,
+    client: MetricsClient = twitterMetricsClient,
+    now = new Date()
+): Promise<{ checked: number; updated: number; error?: string }> {
+    const since = new Date(now.getTime() - getEngagementConfig().metricsDays * 24 * 60 * 60 * 1000).toISOString();
+    const { posts, error } = await storage.postedGames.listSince(getAccount().id, since);
+    if (error) return { checked: 0, updated: 0, error };
+
+    const tracked = posts.filter((p): p is PostedGameRow & { tweet_id: string } => !!p.tweet_id);
+    if (tracked.length === 0) return { checked: 0, updated: 0 };
+
+    try {
+        const metrics = await client.fetchMetrics(tracked.map(p => p.tweet_id));
+        const rows: PostMetricsRow[] = tracked.flatMap(post => {
+            const m = metrics.get(post.tweet_id);
+            return m ? [{ posted_game_id: post.id, ...m, collected_at: now.toISOString() }] : [];
+        });
+
+        const { error: saveError } = await storage.postMetrics.upsert(rows);
+        return { checked: tracked.length, updated: saveError ? 0 : rows.length, error: saveError };
+    } catch (e) {
+        return { checked: tracked.length, updated: 0, error: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+// ============ REPORT ============
+
+export type EngagementDimension = 'platform' | 'discount' | 'price' | 'free' | 'timeOfDay';
+
+export interface EngagementGroup {
+    key: string;
+    posts: number;
+    likes: number;        // Averages per post
+    reposts: number;
+    replies: number;
+    linkClicks: number | null;
+    engagement: number;   // Average interactions (likes + reposts + replies + quotes + clicks)
+    lift: number;         // engagement / the overall average, 1 = typical
+}
+
+export interface EngagementReport {
+    account: string;
+    since: string;
+    posts: number;        // Posts with metrics
+    averageEngagement: number;
+    breakdown: Record<EngagementDimension, EngagementGroup[]>;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const interactions = (m: PostMetricsRow): number =>
+    m.likes + m.reposts + m.replies + m.quotes + (m.link_clicks || 0);
+
+export const discountBand = (percent: number): string => {
+    if (percent >= 90) return '90-100%';
+    if (percent >= 75) return '75-89%';
+    if (percent >= 50) return '50-74%';
+    return '<50%';
+};
+
+export const priceBand = (usd: number): string => {
+    if (usd === 0) return 'free';
+    if (usd < 5) return '<$5';
+    if (usd < 15) return '$5-15';
+    if (usd < 30) return '$15-30';
+    return '$30+';
+};
+
+const timeOfDay = (iso: string): string => {
+    const start = Math.floor(localHour(new Date(iso)) / 6) * 6;
+    return `${String(start).padStart(2, '0')}-${String(start + 6).padStart(2, '0')}`;
+};
+
+// Traits a post and a candidate deal share; time of day only exists for posts
+const postTraits = (post: PostedGameRow): Record<EngagementDimension, string> => ({
+    platform: post.platform || 'unknown',
+    discount: discountBand(post.discount_percent || 0),
+    price: priceBand(Number(post.price_usd)),
+    free: Number(post.price_usd) === 0 ? 'free' : 'paid',
+    timeOfDay: timeOfDay(post.created_at)
+});
+
+export function buildEngagementReport(posts: PostedGameRow[], metrics: PostMetricsRow[], since: string): EngagementReport {
+    const byPost = new Map(metrics.map(m => [m.posted_game_id, m]));
+    const measured = posts.flatMap(post => {
+        const m = byPost.get(post.id);
+        return m ? [{ traits: postTraits(post), m }] : [];
+    });
+
+    const average = (items: typeof measured) =>
+        items.length > 0 ? items.reduce((sum, { m }) => sum + interactions(m), 0) / items.length : 0;
+    const overall = average(measured);
+
+    const dimensions: EngagementDimension[] = ['platform', 'discount', 'price', 'free', 'timeOfDay'];
+    const breakdown = Object.fromEntries(dimensions.map(dimension => {
+        const keys = Array.from(new Set(measured.map(p => p.traits[dimension])));
+        const groups = keys.map((key): EngagementGroup => {
+            const items = measured.filter(p => p.traits[dimension] === key);
+            const clicks = items.filter(({ m }) => m.link_clicks !== null);
+            const avg = (pick: (m: PostMetricsRow) => number) => round(items.reduce((sum, { m }) => sum + pick(m), 0) / items.length);
+            const engagement = average(items);
+            return {
+                key,
+                posts: items.length,
+                likes: avg(m => m.likes),
+                reposts: avg(m => m.reposts),
+                replies: avg(m => m.replies),
+                linkClicks: clicks.length > 0
+                    ? round(clicks.reduce((sum, { m }) => sum + (m.link_clicks || 0), 0) / clicks.length)
+                    : null,
+                engagement: round(engagement),
+                lift: overall > 0 ? round(engagement / overall) : 1
+            };
+        });
+        return [dimension, groups.sort((a, b) => b.lift - a.lift)];
+    })) as Record<EngagementDimension, EngagementGroup[]>;
+
+    return { account: getAccount().id, since, posts: measured.length, averageEngagement: round(overall), breakdown };
+}
+
+// The active account's report over the last ENGAGEMENT_DAYS (or `days`)
+export async function loadEngagementReport(
+    storage: Storage,
+    days = getEngagementConfig().reportDays
+): Promise<{ report?: EngagementReport; error?: string }> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const { posts, error } = await storage.postedGames.listSince(getAccount().id, since);
+    if (error) return { error };
+
+    const tracked = posts.filter(p => p.tweet_id);
+    const { metrics, error: metricsError } = await storage.postMetrics.listFor(tracked.map(p => p.id));
+    if (metricsError) return { error: metricsError };
+
+    return { report: buildEngagementReport(tracked, metrics, since) };
+}
+
+// ============ SCORING ============
+
+// Lift per trait, only for groups with enough posts to be more than noise
+export type EngagementModel = Partial<Record<EngagementDimension, Record<string, number>>>;
+
+export const toEngagementModel = (report: EngagementReport, minPosts = getEngagementConfig().minGroupPosts): EngagementModel =>
+    Object.fromEntries(Object.entries(report.breakdown).map(([dimension, groups]) => [
+        dimension,
+        Object.fromEntries(groups.filter(g => g.posts >= minPosts).map(g => [g.key, g.lift]))
+    ]));
+
+// Average lift of the deal's traits: 1 = like a typical post, undefined = nothing learned yet
+export const expectedLift = (deal: Deal, model: EngagementModel, rates: RateTable): number | undefined => {
+    const usd = convert(salePrice(deal), 'USD', rates);
+    const traits: Partial<Record<EngagementDimension, string>> = {
+        platform: deal.platform,
+        discount: discountBand(deal.discount_percent),
+        price: usd.currency === 'USD' ? priceBand(usd.amount) : undefined,
+        free: deal.final_price === 0 ? 'free' : 'paid'
+    };
+
+    const lifts = (Object.keys(traits) as EngagementDimension[])
+        .map(dimension => traits[dimension] !== undefined ? model[dimension]?.[traits[dimension]!] : undefined)
+        .filter((lift): lift is number => lift !== undefined);
+
+    return lifts.length > 0 ? lifts.reduce((sum, lift) => sum + lift, 0) / lifts.length : undefined;
+};
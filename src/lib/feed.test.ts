@@ -0,0 +1,61 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RateTable } from '@/lib/pricing';
+import { getStorage } from '@/lib/repositories';
+import { loadFeedItems } from '@/lib/feed';
+
+// Posted feed over the in-memory backend, with no live deals to enrich it
+
+const rates: RateTable = { base: 'USD', rates: { USD: 1, TRY: 35 }, source: 'fallback', fetchedAt: null };
+
+vi.mock('@/lib/pipeline', async importOriginal => ({
+    ...await importOriginal<typeof import('@/lib/pipeline')>(),
+    loadPublicDeals: async () => ({ deals: [], rates })
+}));
+
+vi.stubEnv('STORAGE_BACKEND', 'memory');
+
+const supabaseAdmin = {} as SupabaseClient;
+const noFilters = { minDiscount: 0, freeOnly: false };
+
+describe('loadFeedItems', () => {
+    // 250 posts, every 25th on GOG, every 50th free and every 10th at 80% off
+    beforeAll(async () => {
+        const { postedGames } = getStorage();
+        for (let i = 0; i < 250; i++) {
+            await postedGames.insert({
+                account: 'tr',
+                app_id: i,
+                game_id: `steam:${i}`,
+                game_title: `game ${i}`,
+                platform: i % 25 === 0 ? 'GOG' : 'Steam',
+                price_usd: i % 50 === 0 ? 0 : 9.99,
+                discount_percent: i % 10 === 0 ? 80 : 50,
+                tweet_id: null,
+                format: 'single'
+            });
+        }
+    });
+
+    it('loads just the limit without filters', async () => {
+        expect(await loadFeedItems(supabaseAdmin, 'https://example.com', noFilters, 21)).toHaveLength(21);
+    });
+
+    it('filters before limiting, reading further back until the page is full', async () => {
+        const items = await loadFeedItems(supabaseAdmin, 'https://example.com', { ...noFilters, platform: 'GOG' }, 7);
+        expect(items).toHaveLength(7);
+        expect(items.every(item => item.platform === 'GOG')).toBe(true);
+    });
+
+    it('filters on the posted discount when the deal is no longer live', async () => {
+        const items = await loadFeedItems(supabaseAdmin, 'https://example.com', { ...noFilters, minDiscount: 75 }, 30);
+        expect(items).toHaveLength(25);
+        expect(items.every(item => item.discount_percent === 80)).toBe(true);
+    });
+
+    it('returns every match when history runs out first', async () => {
+        const items = await loadFeedItems(supabaseAdmin, 'https://example.com', { ...noFilters, freeOnly: true }, 21);
+        expect(items).toHaveLength(5);
+        expect(items.every(item => item.free)).toBe(true);
+    });
+});
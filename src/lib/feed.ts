@@ -0,0 +1,171 @@
+import type { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Deal } from '@/lib/deals';
+import { loadPostedFeed, loadPublicDeals, type PostedGame } from '@/lib/pipeline';
+import { getStorage } from '@/lib/repositories';
+import { formatPrice } from '@/lib/tweet';
+import { gamePath } from '@/lib/paths';
+import type { RateTable } from '@/lib/pricing';
+
+// Public deal stream shared by /api/deals, /feed.xml and /atom.xml
+
+export interface DealFilters {
+    platform?: string;
+    minDiscount: number;
+    freeOnly: boolean;
+}
+
+export interface FeedItem {
+    id: string;
+    title: string;
+    link: string;          // Store page when we have the deal, otherwise our game page
+    gameUrl: string;
+    platform: string | null;
+    discount_percent: number | null;
+    price: string | null;
+    free: boolean;
+    publishedAt: string;
+}
+
+export const parseFilters = (request: NextRequest): DealFilters => {
+    const params = request.nextUrl.searchParams;
+    return {
+        platform: params.get('platform') || undefined,
+        minDiscount: parseInt(params.get('minDiscount') || '') || 0,
+        freeOnly: params.get('free') === '1' || params.get('free') === 'true'
+    };
+};
+
+// SITE_URL pins the public origin (behind proxies the request origin can be internal)
+export const siteUrl = (request: NextRequest): string =>
+    (process.env.SITE_URL || request.nextUrl.origin).replace(/\/$/, '');
+
+export const filterDeals = (deals: Deal[], filters: DealFilters): Deal[] =>
+    deals.filter(deal =>
+        (!filters.platform || deal.platform === filters.platform) &&
+        deal.discount_percent >= filters.minDiscount &&
+        (!filters.freeOnly || deal.final_price === 0)
+    );
+
+export const toDealJson = (deal: Deal, rates: RateTable, origin: string) => ({
+    id: deal.canonical_id,
+    name: deal.name,
+    platform: deal.platform,
+    discount_percent: deal.discount_percent,
+    price: deal.final_price,
+    currency: deal.currency,
+    price_tl: formatPrice(deal, rates, 'TRY'),
+    historical_low: !!deal.price_stats?.is_historical_low,
+    url: deal.url,
+    image: deal.header_image,
+    game_url: deal.canonical_id ? `${origin}${gamePath(deal.canonical_id)}` : null
+});
+
+const FEED_BATCH = 100;
+const MAX_SCANNED_POSTS = 1000;   // Stop looking for matches this far back
+
+const hasFilters = (filters: DealFilters) => !!filters.platform || filters.minDiscount > 0 || filters.freeOnly;
+
+// A post's discount comes from its live deal, else from what was posted (posted_games.discount_percent).
+// Posts from before that column with no live deal have none, so a discount filter drops them.
+const toFeedItems = (
+    posts: PostedGame[],
+    deals: Deal[],
+    rates: RateTable,
+    origin: string,
+    filters: DealFilters
+): FeedItem[] =>
+    posts
+        .map(post => {
+            const deal = post.game_id ? deals.find(d => d.canonical_id === post.game_id) : undefined;
+            const gameUrl = post.game_id ? `${origin}${gamePath(post.game_id)}` : origin;
+            return {
+                id: `${origin}/posted/${post.id}`,
+                title: deal?.name || post.game_title,
+                link: deal?.url || gameUrl,
+                gameUrl,
+                platform: deal?.platform || post.platform,
+                discount_percent: deal?.discount_percent ?? post.discount_percent ?? null,
+                price: deal ? formatPrice(deal, rates, 'TRY') : null,
+                free: deal ? deal.final_price === 0 : Number(post.price_usd) === 0,
+                publishedAt: new Date(post.created_at).toISOString()
+            };
+        })
+        .filter(item =>
+            (!filters.platform || item.platform === filters.platform) &&
+            (filters.minDiscount === 0 || (item.discount_percent ?? 0) >= filters.minDiscount) &&
+            (!filters.freeOnly || item.free)
+        );
+
+// What the bot actually posted, enriched with the live deal when it's still running.
+// Filters run before the limit: history is read in batches until `limit` posts match or it runs out.
+export async function loadFeedItems(
+    supabaseAdmin: SupabaseClient | undefined,
+    origin: string,
+    filters: DealFilters,
+    limit = 50
+): Promise<FeedItem[]> {
+    const { postedGames } = getStorage();
+    const dealsPromise = loadPublicDeals(supabaseAdmin);
+    const batchSize = hasFilters(filters) ? Math.max(limit, FEED_BATCH) : limit;
+
+    const items: FeedItem[] = [];
+    for (let offset = 0; items.length < limit && offset < MAX_SCANNED_POSTS; offset += batchSize) {
+        const [posts, { deals, rates }] = await Promise.all([loadPostedFeed(postedGames, batchSize, offset), dealsPromise]);
+        items.push(...toFeedItems(posts, deals, rates, origin, filters));
+        if (posts.length < batchSize) break;
+    }
+
+    return items.slice(0, limit);
+}
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const describe = (item: FeedItem) =>
+    [
+        item.discount_percent !== null ? `%${item.discount_percent} İndirim` : null,
+        item.price,
+        item.platform
+    ].filter(Boolean).join(' · ');
+
+const FEED_TITLE = 'Oyun İndirimleri';
+const FEED_DESCRIPTION = 'Botun paylaştığı Steam, Epic Games ve GOG indirimleri';
+
+export const renderRss = (items: FeedItem[], origin: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+<channel>
+<title>${FEED_TITLE}</title>
+<link>${escapeXml(origin)}</link>
+<description>${FEED_DESCRIPTION}</description>
+<language>tr</language>
+<atom:link href="${escapeXml(origin)}/feed.xml" rel="self" type="application/rss+xml"/>
+${items.map(item => `<item>
+<title>${escapeXml(item.title)}</title>
+<link>${escapeXml(item.link)}</link>
+<guid isPermaLink="false">${escapeXml(item.id)}</guid>
+<pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>
+<description>${escapeXml(describe(item))}</description>
+${item.platform ? `<category>${escapeXml(item.platform)}</category>\n` : ''}</item>`).join('\n')}
+</channel>
+</rss>
+`;
+
+export const renderAtom = (items: FeedItem[], origin: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="tr">
+<title>${FEED_TITLE}</title>
+<subtitle>${FEED_DESCRIPTION}</subtitle>
+<id>${escapeXml(origin)}/</id>
+<link href="${escapeXml(origin)}/atom.xml" rel="self"/>
+<link href="${escapeXml(origin)}"/>
+<author><name>${FEED_TITLE}</name></author>
+<updated>${items[0]?.publishedAt || new Date(0).toISOString()}</updated>
+${items.map(item => `<entry>
+<title>${escapeXml(item.title)}</title>
+<id>${escapeXml(item.id)}</id>
+<link href="${escapeXml(item.link)}"/>
+<updated>${item.publishedAt}</updated>
+<summary>${escapeXml(describe(item))}</summary>
+${item.platform ? `<category term="${escapeXml(item.platform)}"/>\n` : ''}</entry>`).join('\n')}
+</feed>
+`;
@@ -0,0 +1,124 @@
+import type { Deal } from '@/lib/deals';
+import type { ScoredDeal } from '@/lib/scoring';
+import type { Publisher } from '@/lib/publishing';
+import type { RateTable } from '@/lib/pricing';
+import { formatPrice } from '@/lib/tweet';
+import { getProviderByPlatform } from '@/lib/providers';
+import { formatPostDate, getMessages } from '@/lib/i18n';
+
+// Post formats beyond the regular single deal. Each runs as its own cron mode
+// (/api/cron?mode=top5 etc.) on its own schedule, see post-deals.yml.
+
+export type PostMode = 'single' | 'top5' | 'weekly' | 'free';
+
+export const POST_MODES: PostMode[] = ['single', 'top5', 'weekly', 'free'];
+
+const TOP_COUNT = 5;
+const WEEKLY_PER_PLATFORM = 3;
+const FREE_MAX = 8;
+
+const NUMBER_EMOJI = ['1️⃣', '2️⃣', '3️⃣', '4️⃣', '5️⃣'];
+
+export const parsePostMode = (value: string | null): PostMode | null =>
+    !value ? 'single' : POST_MODES.includes(value as PostMode) ? value as PostMode : null;
+
+// Deals a multi-post format covers, best first. `ranked` is already filtered to postable deals.
+export const selectForMode = (mode: Exclude<PostMode, 'single'>, ranked: ScoredDeal[]): Deal[] => {
+    const deals = ranked.map(r => r.deal);
+
+    switch (mode) {
+        case 'top5':
+            return deals.filter(d => d.final_price > 0).slice(0, TOP_COUNT);
+        case 'weekly': {
+            const perPlatform = new Map<string, Deal[]>();
+            for (const deal of deals.filter(d => d.final_price > 0)) {
+                const list = perPlatform.get(deal.platform) || [];
+                if (list.length < WEEKLY_PER_PLATFORM) perPlatform.set(deal.platform, [...list, deal]);
+            }
+            return Array.from(perPlatform.values()).flat();
+        }
+        case 'free':
+            return deals.filter(d => d.final_price === 0).slice(0, FREE_MAX);
+    }
+};
+
+const countChars = (text: string) => Array.from(text).length;
+
+const truncate = (text: string, max: number): string => {
+    const chars = Array.from(text);
+    return chars.length <= max ? text : chars.slice(0, Math.max(1, max - 1)).join('').trimEnd() + '…';
+};
+
+// Fill posts line by line; a section header is never left at the end of a post on its own
+const packLines = (header: string, sections: string[][], maxLength: number): string[] => {
+    const parts: string[] = [];
+    let current = header;
+
+    const push = (line: string) => {
+        const next = current ? `${current}\n${line}` : line;
+        if (current && countChars(next) > maxLength) {
+            parts.push(current);
+            current = truncate(line, maxLength);
+        } else {
+            current = next;
+        }
+    };
+
+    for (const [title, ...lines] of sections) {
+        const [first, ...rest] = lines;
+        push(first ? `\n${title}\n${first}` : `\n${title}`);
+        rest.forEach(push);
+    }
+    if (current) parts.push(current);
+
+    return parts.map(part => part.trim());
+};
+
+const dealLine = (deal: Deal, rates: RateTable, currency: string): string =>
+    deal.final_price === 0
+        ? `• ${deal.name}`
+        : `• ${deal.name} ${getMessages().cardDiscount(deal.discount_percent)} → ${formatPrice(deal, rates, currency)}`;
+
+// "🔥 Bugünün en iyi 5 indirimi" / "Today's top 5 deals" followed by one regular deal post per reply
+export const formatTopThread = (deals: Deal[], rates: RateTable, publisher: Publisher, currency: string): string[] => [
+    truncate(`🔥 ${getMessages().topThread(deals.length)} 🧵👇\n\n${deals
+        .map((deal, i) => `${NUMBER_EMOJI[i]} ${deal.name} ${getMessages().cardDiscount(deal.discount_percent)}`)
+        .join('\n')}`, publisher.maxLength),
+    ...deals.map(deal => publisher.format(deal, rates, currency))
+];
+
+// Best deals of the week grouped by platform, packed into as few posts as the channel allows
+export const formatWeeklyDigest = (deals: Deal[], rates: RateTable, publisher: Publisher, currency: string): string[] => {
+    const platforms = Array.from(new Set(deals.map(d => d.platform)));
+    const sections = platforms.map(platform => [
+        `${getProviderByPlatform(platform)?.emoji || '🎮'} ${platform}`,
+        ...deals.filter(d => d.platform === platform).map(d => dealLine(d, rates, currency))
+    ]);
+    return packLines(`📅 ${getMessages().weeklyDigest}`, sections, publisher.maxLength);
+};
+
+// Every game that's free right now, with the end date where the store gives one
+export const formatFreeRoundup = (deals: Deal[], publisher: Publisher): string[] => {
+    const m = getMessages();
+    const lines = deals.map(deal => {
+        const until = deal.free_window
+            ? ` (${m.roundupUntil(formatPostDate(deal.free_window.ends_at, { day: 'numeric', month: 'long' }))})`
+            : '';
+        return `• ${deal.name} - ${deal.platform}${until}\n${deal.url}`;
+    });
+    return packLines(`🆓 ${m.freeRoundup}`, [[`🎁 ${m.freeRoundupSection}`, ...lines]], publisher.maxLength);
+};
+
+export const formatForMode = (
+    mode: Exclude<PostMode, 'single'>,
+    deals: Deal[],
+    rates: RateTable,
+    publisher: Publisher,
+    currency: string
+): string[] => {
+    switch (mode) {
+        case 'top5': return formatTopThread(deals, rates, publisher, currency);
+        case 'weekly': return formatWeeklyDigest(deals, rates, publisher, currency);
+        case 'free': return formatFreeRoundup(deals, publisher);
+    }
+};
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Deal } from '@/lib/deals';
+import { getHistoryConfig } from '@/lib/config';
+import { getAccount } from '@/lib/accounts';
+
+// Price snapshots for every fetched deal, one row per deal per cron run. Store prices differ
+// per region even in the same currency, so each account's region keeps its own history.
+// Table and the price_stats view: supabase/migrations/0005_price_history.sql, 0010_accounts.sql
+
+export interface PriceStats {
+    game_id: string;
+    currency: string;
+    all_time_low: number;
+    low_90d: number | null;
+    last_sale_at: string | null;
+    first_seen_at: string;
+}
+
+export async function savePriceSnapshots(
+    supabaseAdmin: SupabaseClient,
+    deals: Deal[]
+): Promise<{ saved: number; error?: string }> {
+    const rows = deals
+        .filter(d => d.canonical_id)
+        .map(d => ({
+            game_id: d.canonical_id,
+            region: getAccount().region,
+            game_title: d.name,
+            platform: d.platform,
+            price: d.final_price,
+            currency: d.currency,
+            discount_percent: d.discount_percent
+        }));
+    if (rows.length === 0) return { saved: 0 };
+
+    const { error } = await supabaseAdmin.from('price_history').insert(rows);
+    return { saved: error ? 0 : rows.length, error: error?.message };
+}
+
+export async function loadPriceStats(
+    supabaseAdmin: SupabaseClient,
+    gameIds: string[]
+): Promise<{ stats: PriceStats[]; error?: string }> {
+    if (gameIds.length === 0) return { stats: [] };
+
+    const { data, error } = await supabaseAdmin
+        .from('price_stats')
+        .select('game_id, currency, all_time_low, low_90d, last_sale_at, first_seen_at')
+        .eq('region', getAccount().region)
+        .in('game_id', gameIds);
+
+    return { stats: data || [], error: error?.message };
+}
+
+// Attach history to a deal. Our own history only counts as an all-time low once it's long
+// enough, otherwise "lowest since the bot started watching" would be oversold. ITAD's low
+// (same currency only) covers years, so it counts right away and lowers our own figure.
+export const applyPriceStats = (deal: Deal, stats: PriceStats[]): Deal => {
+    const match = stats.find(s => s.game_id === deal.canonical_id && s.currency === deal.currency);
+    const itadLow = deal.itad_low?.currency === deal.currency ? deal.itad_low.amount : null;
+    if (!match && itadLow === null) return deal;
+
+    if (!match) {
+        return {
+            ...deal,
+            price_stats: {
+                all_time_low: itadLow!,
+                low_90d: null,
+                last_sale_at: null,
+                is_historical_low: deal.final_price <= itadLow!,
+                is_90d_low: false
+            }
+        };
+    }
+
+    const { minHistoryDays } = getHistoryConfig();
+    const historyDays = (Date.now() - Date.parse(match.first_seen_at)) / (24 * 60 * 60 * 1000);
+    const ownLow = Number(match.all_time_low);
+    const allTimeLow = itadLow === null ? ownLow : Math.min(ownLow, itadLow);
+    const low90d = match.low_90d === null ? null : Number(match.low_90d);
+
+    return {
+        ...deal,
+        price_stats: {
+            all_time_low: allTimeLow,
+            low_90d: low90d,
+            last_sale_at: match.last_sale_at,
+            is_historical_low: (historyDays >= minHistoryDays || itadLow !== null) && deal.final_price <= allTimeLow,
+            is_90d_low: low90d !== null && deal.final_price <= low90d
+        }
+    };
+};
+
+export interface PricePoint {
+    platform: string;
+    game_title: string;
+    price: number;
+    currency: string;
+    discount_percent: number;
+    created_at: string;
+}
+
+export async function loadPriceHistory(
+    supabaseAdmin: SupabaseClient,
+    gameId: string,
+    days = 365
+): Promise<{ points: PricePoint[]; error?: string }> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabaseAdmin
+        .from('price_history')
+        .select('platform, game_title, price, currency, discount_percent, created_at')
+        .eq('game_id', gameId)
+        .eq('region', getAccount().region)
+        .gt('created_at', since)
+        .order('created_at', { ascending: true });
+
+    return { points: (data || []).map(p => ({ ...p, price: Number(p.price) })), error: error?.message };
+}
@@ -0,0 +1,185 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { getHttpConfig } from '@/lib/config';
+
+// Shared HTTP client for everything the pipeline downloads (store APIs, exchange rates, deal
+// artwork): per-host timeouts, retries with exponential backoff, a circuit breaker per host
+// and an in-memory response cache.
+//
+// HTTP_MODE=record saves every response to HTTP_FIXTURES_DIR (one JSON file per URL, images
+// base64-encoded) and HTTP_MODE=replay serves them back without touching the network, so a
+// dry run over recorded fixtures selects the same deal every time:
+//     HTTP_MODE=record curl -H "Authorization: Bearer $CRON_SECRET" "localhost:3000/api/cron?dryRun=1"
+//     HTTP_MODE=replay curl -H "Authorization: Bearer $CRON_SECRET" "localhost:3000/api/cron?dryRun=1"
+
+const USER_AGENT = 'Mozilla/5.0';
+const BACKOFF_BASE_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+const MAX_CACHE_ENTRIES = 500;
+
+// Carries the status so callers can tell "not found" from "store is down".
+// url has any API key stripped, so errors are safe to log.
+export class HttpError extends Error {
+    constructor(message: string, public status?: number, public url?: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export interface RequestOptions {
+    cacheTtlMs?: number;   // Reuse a successful response for this long (default: no caching)
+    headers?: Record<string, string>;
+    body?: unknown;        // Sent as JSON with POST
+}
+
+interface StoredResponse {
+    url: string;
+    status: number;
+    body: string;
+    encoding?: 'base64';     // Binary bodies (images)
+    contentType?: string;
+}
+
+// Per-host breaker state for this process
+const breakers = new Map<string, { failures: number; openUntil: number }>();
+const cache = new Map<string, { expiresAt: number; response: StoredResponse }>();
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+// Identifies a request for the cache and fixtures. API keys are left out so they never
+// end up on disk and fixtures replay under any key.
+const requestKey = (url: string, body?: unknown): string => {
+    const parsed = new URL(url);
+    parsed.searchParams.delete('key');
+    return body === undefined ? parsed.toString() : `POST ${parsed} ${JSON.stringify(body)}`;
+};
+
+const fixturePath = (key: string, url: string): string => {
+    const { host } = new URL(url);
+    const hash = createHash('sha1').update(key).digest('hex').slice(0, 12);
+    return path.resolve(process.cwd(), getHttpConfig().fixturesDir, `${host}-${hash}.json`);
+};
+
+async function replay(key: string, url: string): Promise<StoredResponse> {
+    try {
+        return JSON.parse(await readFile(fixturePath(key, url), 'utf8'));
+    } catch {
+        throw new HttpError(`No recorded response for ${key}`, undefined, key);
+    }
+}
+
+async function record(key: string, url: string, response: StoredResponse): Promise<void> {
+    const file = fixturePath(key, url);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify({ ...response, url: key }, null, 2));
+}
+
+// Retry-After in seconds, capped so a slow store can't stall the run
+const retryAfterMs = (res: Response): number | null => {
+    const seconds = Number(res.headers.get('retry-after'));
+    return seconds > 0 ? Math.min(seconds * 1000, MAX_BACKOFF_MS) : null;
+};
+
+async function fetchWithRetries(url: string, options: RequestOptions, binary: boolean): Promise<StoredResponse> {
+    const host = new URL(url).host;
+    const safeUrl = requestKey(url);
+    const policy = getHttpConfig().policyFor(host);
+    const breaker = breakers.get(host) || { failures: 0, openUntil: 0 };
+    breakers.set(host, breaker);
+
+    if (breaker.openUntil > Date.now()) {
+        throw new HttpError(`Circuit open for ${host} after ${breaker.failures} failures`, undefined, safeUrl);
+    }
+
+    let lastError: HttpError | null = null;
+    for (let attempt = 0; attempt <= policy.retries; attempt++) {
+        let waitMs = Math.min(BACKOFF_BASE_MS * 2 ** attempt, MAX_BACKOFF_MS) * (0.5 + Math.random() / 2);
+        try {
+            const res = await fetch(url, {
+                method: options.body === undefined ? 'GET' : 'POST',
+                headers: {
+                    'User-Agent': USER_AGENT,
+                    ...(options.body === undefined ? {} : { 'Content-Type': 'application/json' }),
+                    ...options.headers
+                },
+                body: options.body === undefined ? undefined : JSON.stringify(options.body),
+                signal: AbortSignal.timeout(policy.timeoutMs),
+                cache: 'no-store'
+            });
+            const body = Buffer.from(await res.arrayBuffer());
+
+            if (res.ok || !isRetryable(res.status)) {
+                // A 404 is an answer, not an outage - only retryable failures trip the breaker
+                breaker.failures = 0;
+                return binary
+                    ? { url, status: res.status, body: body.toString('base64'), encoding: 'base64',
+                        contentType: res.headers.get('content-type') || undefined }
+                    : { url, status: res.status, body: body.toString('utf8') };
+            }
+
+            lastError = new HttpError(`${host} HTTP ${res.status}`, res.status, safeUrl);
+            waitMs = retryAfterMs(res) ?? waitMs;
+        } catch (e: any) {
+            lastError = new HttpError(
+                e?.name === 'TimeoutError' ? `${host} timed out after ${policy.timeoutMs}ms` : `${host}: ${e?.message || e}`,
+                undefined,
+                safeUrl
+            );
+        }
+
+        if (attempt < policy.retries) await delay(waitMs);
+    }
+
+    breaker.failures++;
+    if (breaker.failures >= policy.breakerThreshold) {
+        breaker.openUntil = Date.now() + policy.breakerCooldownMs;
+        console.error(`HTTP circuit opened for ${host} (${policy.breakerCooldownMs / 1000}s)`);
+    }
+    throw lastError!;
+}
+
+// Cache, then fixtures or the network. Throws HttpError for non-2xx answers, timeouts and open circuits.
+async function request(url: string, options: RequestOptions, binary: boolean): Promise<{ key: string; response: StoredResponse }> {
+    const { mode } = getHttpConfig();
+    const key = requestKey(url, options.body);
+
+    const cached = cache.get(key);
+    let response = cached && cached.expiresAt > Date.now() ? cached.response : null;
+
+    if (!response) {
+        response = mode === 'replay' ? await replay(key, url) : await fetchWithRetries(url, options, binary);
+        if (mode === 'record') await record(key, url, response);
+
+        if (options.cacheTtlMs && response.status < 300) {
+            if (cache.size >= MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value as string);
+            cache.set(key, { expiresAt: Date.now() + options.cacheTtlMs, response });
+        }
+    }
+
+    if (response.status >= 300) {
+        throw new HttpError(`${new URL(url).host} HTTP ${response.status}`, response.status, key);
+    }
+    return { key, response };
+}
+
+// GET (or POST with a body) a URL and parse JSON
+export async function fetchJson<T = any>(url: string, options: RequestOptions = {}): Promise<T> {
+    const { key, response } = await request(url, options, false);
+    try {
+        return JSON.parse(response.body);
+    } catch {
+        throw new HttpError(`${new URL(url).host} returned invalid JSON`, response.status, key);
+    }
+}
+
+// GET a binary resource such as deal artwork
+export async function fetchBinary(url: string, options: RequestOptions = {}): Promise<{ buffer: Buffer; contentType?: string }> {
+    const { response } = await request(url, options, true);
+    return {
+        buffer: Buffer.from(response.body, response.encoding === 'base64' ? 'base64' : 'utf8'),
+        contentType: response.contentType
+    };
+}
@@ -0,0 +1,80 @@
+import { getAccount } from '@/lib/accounts';
+
+// Post templates per language. The active account picks the locale (see accounts.ts);
+// the website and wishlist e-mails stay Turkish.
+
+export type Locale = 'tr' | 'en';
+
+export interface Messages {
+    dateLocale: string;       // Intl locale for dates in posts
+    storeLocale: string;      // Locale segment in Epic store URLs
+    free: string;
+    insteadOf: (price: string) => string;
+    discount: (percent: number) => string;
+    cardDiscount: (percent: number) => string;
+    cardHistoricalLow: string;
+    historicalLow: string;
+    // Free-game windows (tweet.ts)
+    upcomingFree: (weekday: string, platform: string) => string;
+    freeNow: (name: string) => string;
+    freeUntil: (date: string) => string;
+    lastDay: (name: string) => string;
+    endsAt: (date: string) => string;
+    // Threads and digests (formats.ts)
+    topThread: (count: number) => string;
+    weeklyDigest: string;
+    freeRoundup: string;
+    freeRoundupSection: string;
+    roundupUntil: (date: string) => string;
+}
+
+const MESSAGES: Record<Locale, Messages> = {
+    tr: {
+        dateLocale: 'tr-TR',
+        storeLocale: 'tr',
+        free: 'ÜCRETSİZ',
+        insteadOf: price => `(${price} yerine)`,
+        discount: percent => `%${percent} İndirim`,
+        cardDiscount: percent => `-%${percent}`,
+        cardHistoricalLow: 'EN DÜŞÜK FİYAT',
+        historicalLow: 'Tüm zamanların en düşük fiyatı',
+        upcomingFree: (weekday, platform) => `${weekday} ${platform}'te ücretsiz!`,
+        freeNow: name => `Şimdi ücretsiz: ${name}`,
+        freeUntil: date => `${date} tarihine kadar`,
+        lastDay: name => `Son 24 saat! ${name} hâlâ ücretsiz`,
+        endsAt: date => `${date} sona eriyor`,
+        topThread: count => `Bugünün en iyi ${count} indirimi`,
+        weeklyDigest: 'Haftanın en iyi indirimleri',
+        freeRoundup: 'Şu an ücretsiz alınabilen oyunlar',
+        freeRoundupSection: 'Kaçırmayın!',
+        roundupUntil: date => `${date} tarihine kadar`
+    },
+    en: {
+        dateLocale: 'en-US',
+        storeLocale: 'en-US',
+        free: 'FREE',
+        insteadOf: price => `(was ${price})`,
+        discount: percent => `${percent}% off`,
+        cardDiscount: percent => `-${percent}%`,
+        cardHistoricalLow: 'LOWEST PRICE EVER',
+        historicalLow: 'All-time lowest price',
+        upcomingFree: (weekday, platform) => `Free on ${platform} this ${weekday}!`,
+        freeNow: name => `Free now: ${name}`,
+        freeUntil: date => `Until ${date}`,
+        lastDay: name => `Last 24 hours! ${name} is still free`,
+        endsAt: date => `Ends ${date}`,
+        topThread: count => `Today's top ${count} deals`,
+        weeklyDigest: 'Best deals of the week',
+        freeRoundup: 'Games you can grab for free right now',
+        freeRoundupSection: "Don't miss out!",
+        roundupUntil: date => `until ${date}`
+    }
+};
+
+export const getMessages = (locale: Locale = getAccount().locale): Messages => MESSAGES[locale];
+
+// Dates in posts, in the account's language and time zone
+export const formatPostDate = (iso: string, options: Intl.DateTimeFormatOptions): string => {
+    const { timeZone } = getAccount();
+    return new Intl.DateTimeFormat(getMessages().dateLocale, { timeZone, ...options }).format(new Date(iso));
+};
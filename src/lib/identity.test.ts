@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Deal } from '@/lib/deals';
+import { getIdentity, groupByGame, isSameGame, matchesPost } from '@/lib/identity';
+
+const deal = (name: string, external_ids: Deal['external_ids'] = {}, platform = 'Steam'): Deal => ({
+    id: `${platform}-${name}`,
+    name,
+    discount_percent: 50,
+    final_price: 100,
+    currency: 'TRY',
+    platform,
+    url: 'https://example.com',
+    header_image: null,
+    external_ids
+});
+
+const doom = deal('DOOM', { steam: '379720' });
+const darkAges = deal('DOOM: The Dark Ages', { steam: '3017860' });
+
+describe('isSameGame', () => {
+    it('matches deals that share a store ID', () => {
+        expect(isSameGame(getIdentity(deal('Skald', { steam: '1' })), getIdentity(deal('Other name', { steam: '1', gog: '2' }))))
+            .toBe(true);
+    });
+
+    it('keeps apart different IDs from the same store, even with matching titles', () => {
+        expect(isSameGame(getIdentity(doom), getIdentity(darkAges))).toBe(false);
+    });
+
+    it('falls back to titles when the deals have no store in common', () => {
+        const gogSkald = deal('Skald', { gog: '9' }, 'GOG');
+        const steamSkald = deal('SKALD: Against the Black Priory', { steam: '1' });
+        expect(isSameGame(getIdentity(gogSkald), getIdentity(steamSkald))).toBe(true);
+    });
+
+    it('does not merge titles that only share a prefix', () => {
+        expect(isSameGame(getIdentity(deal('Call of Duty Black Ops')), getIdentity(deal('Call of Duty Modern Warfare'))))
+            .toBe(false);
+    });
+});
+
+describe('groupByGame', () => {
+    it('keeps DOOM and DOOM: The Dark Ages as separate games', () => {
+        const groups = groupByGame([doom, darkAges]);
+        expect(groups.map(g => g.canonicalId)).toEqual(['steam:379720', 'steam:3017860']);
+    });
+
+    it('does not chain two Steam games together through an ID-less title match', () => {
+        const gogDoom = deal('DOOM', { gog: '1' }, 'GOG');
+        const groups = groupByGame([doom, darkAges, gogDoom]);
+
+        expect(groups).toHaveLength(2);
+        expect(groups.find(g => g.canonicalId === 'steam:379720')!.deals).toEqual([doom, gogDoom]);
+        expect(groups.find(g => g.canonicalId === 'steam:3017860')!.deals).toEqual([darkAges]);
+    });
+
+    it('gives a cross-store group the strongest ID', () => {
+        const groups = groupByGame([deal('Skald', { gog: '9' }, 'GOG'), deal('Skald', { steam: '1' })]);
+        expect(groups).toHaveLength(1);
+        expect(groups[0].canonicalId).toBe('steam:1');
+    });
+});
+
+describe('matchesPost', () => {
+    it('matches by stored game ID', () => {
+        expect(matchesPost(getIdentity(doom), { game_id: 'steam:379720', game_title: 'doom' })).toBe(true);
+    });
+
+    it('does not let a post of another Steam game block this one by title', () => {
+        expect(matchesPost(getIdentity(darkAges), { game_id: 'steam:379720', game_title: 'doom' })).toBe(false);
+    });
+
+    it('compares titles for rows from before game_id, or from a store the deal lacks', () => {
+        expect(matchesPost(getIdentity(darkAges), { game_id: null, game_title: 'doom the dark ages' })).toBe(true);
+        expect(matchesPost(getIdentity(darkAges), { game_id: 'gog:5', game_title: 'doom the dark ages' })).toBe(true);
+        expect(matchesPost(getIdentity(darkAges), { game_id: 'title:doom-the-dark-ages', game_title: 'doom the dark ages' }))
+            .toBe(true);
+    });
+});
@@ -0,0 +1,131 @@
+import { normalizeGameName, type Deal } from '@/lib/deals';
+
+// Game identity across stores.
+//
+// A game is known by every store ID we have for it (steam:<appid>, gog:<id>, epic:<namespace>,
+// itad:<game id>) plus a title key. Deals sharing any store ID are the same game, and different
+// IDs from the same store are different games. Deals with no store in common fall back to
+// comparing full titles, so "Call of Duty Black Ops" and "Call of Duty Modern Warfare" stay
+// apart while "Skald" and "SKALD: Against the Black Priory" are merged.
+//
+// posted_games.game_id stores the canonical ID of what was posted.
+
+// Edition suffixes that don't make a different game
+const EDITION_WORDS = /\b(game of the year|goty|definitive|deluxe|complete|enhanced|standard|digital|ultimate|gold) edition\b|\bgoty\b/g;
+
+export interface GameIdentity {
+    canonicalId: string;   // Strongest key: steam > gog > epic > itad > title
+    keys: string[];        // Every key this game is known by
+    titleKey: string;      // Full normalized title without edition words
+    baseTitleKey: string;  // Title before the first ":" or " - " subtitle separator
+}
+
+export const titleKey = (name: string): string =>
+    normalizeGameName(name.replace(/[™®©]/g, ''))
+        .replace(EDITION_WORDS, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const baseTitleKey = (name: string): string =>
+    titleKey(name.split(/:| - | – /)[0]);
+
+export const getIdentity = (deal: Pick<Deal, 'name' | 'external_ids'>): GameIdentity => {
+    const ids = deal.external_ids || {};
+    const storeKeys = [
+        ids.steam && `steam:${ids.steam}`,
+        ids.gog && `gog:${ids.gog}`,
+        ids.epic && `epic:${ids.epic}`,
+        ids.itad && `itad:${ids.itad}`
+    ].filter((key): key is string => !!key);
+
+    const title = titleKey(deal.name);
+    const titleId = `title:${title.replace(/ /g, '-')}`;
+
+    return {
+        canonicalId: storeKeys[0] || titleId,
+        keys: [...storeKeys, titleId],
+        titleKey: title,
+        baseTitleKey: baseTitleKey(deal.name)
+    };
+};
+
+// Same full title, or one title is the other's base ("Skald" vs "Skald: Against the Black Priory")
+const sameTitle = (a: GameIdentity, b: GameIdentity): boolean =>
+    !!a.titleKey && (
+        a.titleKey === b.titleKey ||
+        a.titleKey === b.baseTitleKey ||
+        a.baseTitleKey === b.titleKey
+    );
+
+const storeIds = (identity: GameIdentity): string[] => identity.keys.filter(key => !key.startsWith('title:'));
+
+const namespace = (key: string): string => key.slice(0, key.indexOf(':'));
+
+const sharesStoreKey = (a: GameIdentity, b: GameIdentity): boolean =>
+    storeIds(a).some(key => b.keys.includes(key));
+
+// Both have an ID from the same store ("steam:379720" vs "steam:3017860")
+const sharesNamespace = (a: GameIdentity, b: GameIdentity): boolean => {
+    const namespaces = storeIds(b).map(namespace);
+    return storeIds(a).some(key => namespaces.includes(namespace(key)));
+};
+
+// Different IDs from the same store mean different games, however similar the titles:
+// "DOOM" and "DOOM: The Dark Ages" are both on Steam under their own app IDs
+const isConflict = (a: GameIdentity, b: GameIdentity): boolean =>
+    sharesNamespace(a, b) && !sharesStoreKey(a, b);
+
+// The title fallback only applies when the two have no store in common to compare IDs on
+export const isSameGame = (a: GameIdentity, b: GameIdentity): boolean =>
+    sharesStoreKey(a, b) || (!sharesNamespace(a, b) && sameTitle(a, b));
+
+// Group deals that are the same game, across stores. Each group gets the strongest
+// canonical ID any of its members has, so a GOG deal grouped with a Steam deal is steam:<appid>.
+export const groupByGame = (deals: Deal[]): { canonicalId: string; deals: Deal[] }[] => {
+    const identities = deals.map(getIdentity);
+
+    // Union-find over deal indexes. Two groups only merge when no members conflict, so an
+    // ID-less title match can't chain "DOOM" and "DOOM: The Dark Ages" into one group.
+    const parent = deals.map((_, i) => i);
+    const members = new Map(deals.map((_, i) => [i, [i]]));
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    for (let i = 0; i < deals.length; i++) {
+        for (let j = i + 1; j < deals.length; j++) {
+            const [rootI, rootJ] = [find(i), find(j)];
+            if (rootI === rootJ || !isSameGame(identities[i], identities[j])) continue;
+
+            const groupI = members.get(rootI)!;
+            const groupJ = members.get(rootJ)!;
+            if (groupI.some(a => groupJ.some(b => isConflict(identities[a], identities[b])))) continue;
+
+            parent[rootJ] = rootI;
+            members.set(rootI, [...groupI, ...groupJ]);
+            members.delete(rootJ);
+        }
+    }
+
+    const rank = (id: string) => ['steam:', 'gog:', 'epic:', 'itad:', 'title:'].findIndex(p => id.startsWith(p));
+
+    return Array.from(members.values()).map(group => ({
+        canonicalId: group
+            .map(i => identities[i].canonicalId)
+            .sort((a, b) => rank(a) - rank(b))[0],
+        deals: group.sort((a, b) => a - b).map(i => deals[i])
+    }));
+};
+
+// Does a posted_games row refer to this game? Rows from before game_id existed
+// only have the normalized title, so those are compared by title. So are rows whose ID is
+// from a store this deal has no ID for; a store the deal does have settles it by ID.
+export const matchesPost = (
+    identity: GameIdentity,
+    post: { game_id?: string | null; game_title: string }
+): boolean => {
+    if (post.game_id && identity.keys.includes(post.game_id)) return true;
+    if (post.game_id && !post.game_id.startsWith('title:') &&
+        storeIds(identity).some(key => namespace(key) === namespace(post.game_id!))) {
+        return false;
+    }
+    return sameTitle(identity, getIdentity({ name: post.game_title }));
+};
@@ -0,0 +1,195 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Deal } from '@/lib/deals';
+import { enrichWithItad, type ItadDealItem } from '@/lib/itad';
+import { itadProvider } from '@/lib/providers/itad';
+import { notFound, startMockServer, type MockResponse, type MockServer, type ReceivedRequest } from '@/test/mock-server';
+
+// The ITAD deal source and enrichment against a local stand-in for api.isthereanydeal.com
+
+// /deals/v2 response saved from the prototype run (test-output-full.txt)
+const trendingDeals = JSON.parse(readFileSync(path.join(__dirname, '../../trending-deals.json'), 'utf8'));
+
+const item = (overrides: Partial<ItadDealItem> & { shopId: number; cut: number }): ItadDealItem => ({
+    id: `itad-${overrides.shopId}`,
+    slug: 'game',
+    title: 'Game',
+    type: 'game',
+    mature: false,
+    assets: { banner600: 'https://assets.isthereanydeal.com/banner600.jpg' },
+    deal: {
+        shop: { id: overrides.shopId, name: `Shop ${overrides.shopId}` },
+        price: { amount: 100, currency: 'TRY' },
+        regular: { amount: 400, currency: 'TRY' },
+        cut: overrides.cut,
+        historyLow: { amount: 80, currency: 'TRY' },
+        url: 'https://itad.link/1/'
+    },
+    ...overrides
+});
+
+const storeDeal = (overrides: Partial<Deal>): Deal => ({
+    id: 'deal',
+    name: 'Game',
+    discount_percent: 50,
+    final_price: 100,
+    currency: 'TRY',
+    platform: 'Steam',
+    url: 'https://store.steampowered.com/app/1',
+    header_image: null,
+    ...overrides
+});
+
+const json = (req: ReceivedRequest) => JSON.parse(req.body.toString('utf8'));
+const query = (req: ReceivedRequest) => new URL(req.path, 'http://itad').searchParams;
+const pathname = (req: ReceivedRequest) => new URL(req.path, 'http://itad').pathname;
+
+let server: MockServer;
+let respond: (req: ReceivedRequest) => MockResponse;
+
+beforeEach(async () => {
+    respond = notFound;
+    server = await startMockServer(req => respond(req));
+    vi.stubEnv('ITAD_API_URL', server.url);
+    vi.stubEnv('ITAD_API_KEY', 'itad-key');
+});
+
+afterEach(async () => {
+    vi.unstubAllEnvs();
+    await server.close();
+});
+
+describe('itad provider', () => {
+    it('asks for trending deals from the configured shops and country', async () => {
+        vi.stubEnv('ITAD_SHOPS', '61,35');
+        vi.stubEnv('ITAD_COUNTRY', 'us');
+        respond = () => ({ json: { list: [] } });
+
+        await itadProvider.fetchDeals();
+
+        const [req] = server.requests;
+        expect(pathname(req)).toBe('/deals/v2');
+        expect(Object.fromEntries(query(req))).toMatchObject({
+            key: 'itad-key', country: 'US', shops: '61,35', sort: 'trending', mature: 'false'
+        });
+    });
+
+    it('drops small cuts from the saved trending list', async () => {
+        respond = () => ({ json: trendingDeals });
+
+        const deals = await itadProvider.fetchDeals();
+
+        // Only the 82% EON ALTAR deal clears the minimum discount
+        expect(deals).toHaveLength(1);
+        expect(deals[0]).toMatchObject({
+            id: 'itad_018d937f-2dc9-7367-ad29-80394197171b_47',
+            discount_percent: 82,
+            platform: 'MacGameStore',
+            store_type: 'dlc',
+            external_ids: { itad: '018d937f-2dc9-7367-ad29-80394197171b' }
+        });
+    });
+
+    it('maps shops and types onto the store fetchers\' names and skips deals without a currency', async () => {
+        respond = () => ({
+            json: {
+                list: [
+                    item({ shopId: 61, cut: 75, title: 'Hades' }),
+                    item({ shopId: 35, cut: 50, title: 'Witcher Pack', type: 'package' }),
+                    item({ shopId: 16, cut: 90, title: 'Adult Game', mature: true }),
+                    {
+                        ...item({ shopId: 16, cut: 80, title: 'No Currency' }),
+                        deal: { ...item({ shopId: 16, cut: 80 }).deal, price: { amount: 5, currency: '' } }
+                    }
+                ]
+            }
+        });
+
+        const deals = await itadProvider.fetchDeals();
+
+        expect(deals.map(d => [d.name, d.platform, d.store_type])).toEqual([
+            ['Hades', 'Steam', 'game'],
+            ['Witcher Pack', 'GOG', 'bundle']
+        ]);
+        expect(deals[0]).toMatchObject({
+            final_price: 100,
+            original_price: 400,
+            currency: 'TRY',
+            itad_low: { amount: 80, currency: 'TRY' },
+            header_image: 'https://assets.isthereanydeal.com/banner600.jpg'
+        });
+        expect(deals[0].popularity).toBeGreaterThan(deals[1].popularity!);
+    });
+
+    it('is off without an API key', () => {
+        vi.stubEnv('ITAD_API_KEY', '');
+        expect(itadProvider.isConfigured?.()).toBe(false);
+    });
+});
+
+describe('enrichWithItad', () => {
+    const lookups = (req: ReceivedRequest): MockResponse => {
+        switch (pathname(req)) {
+            case '/lookup/id/shop/61/v1': return { json: { 'app/367520': 'itad-hk', 'app/999': null } };
+            case '/lookup/id/title/v1': return { json: { 'Control': 'itad-control' } };
+            case '/games/historylow/v1': return {
+                json: json(req).map((id: string) => ({ id, low: { price: { amount: 20, currency: 'TRY' } } }))
+            };
+            default: return notFound();
+        }
+    };
+
+    it('looks up game IDs by Steam app, then by title, and attaches all-time lows', async () => {
+        respond = lookups;
+        const deals = [
+            storeDeal({ id: 'hk', name: 'Hollow Knight', external_ids: { steam: '367520' } }),
+            storeDeal({ id: 'unknown', name: 'Unknown', external_ids: { steam: '999' } }),
+            storeDeal({ id: 'control', name: 'Control', platform: 'Epic Games', external_ids: { epic: 'ns' } })
+        ];
+
+        const { deals: enriched, error } = await enrichWithItad(deals);
+
+        expect(error).toBeUndefined();
+        expect(enriched.map(d => [d.id, d.external_ids?.itad, d.itad_low?.amount])).toEqual([
+            ['hk', 'itad-hk', 20],
+            ['unknown', undefined, undefined],
+            ['control', 'itad-control', 20]
+        ]);
+
+        const [bySteam, byTitle, lows] = server.requests;
+        expect(bySteam.method).toBe('POST');
+        expect(json(bySteam)).toEqual(['app/367520', 'app/999']);
+        expect(json(byTitle)).toEqual(['Control']);
+        expect(json(lows)).toEqual(['itad-hk', 'itad-control']);
+        expect(query(lows).get('country')).toBe('TR');
+    });
+
+    it('keeps IDs and lows the deal already has', async () => {
+        respond = lookups;
+        const deals = [storeDeal({ external_ids: { itad: 'itad-known' }, itad_low: { amount: 5, currency: 'TRY' } })];
+
+        const { deals: enriched } = await enrichWithItad(deals);
+
+        expect(enriched).toEqual(deals);
+        expect(server.requests.map(pathname)).not.toContain('/games/historylow/v1');
+    });
+
+    it('returns the deals unchanged when ITAD fails', async () => {
+        respond = () => ({ status: 403, json: { error: 'invalid key' } });
+        const deals = [storeDeal({ external_ids: { steam: '367520' } })];
+
+        const { deals: enriched, error } = await enrichWithItad(deals);
+
+        expect(enriched).toEqual(deals);
+        expect(error).toContain('HTTP 403');
+    });
+
+    it('does nothing without an API key', async () => {
+        vi.stubEnv('ITAD_API_KEY', '');
+        const deals = [storeDeal({ external_ids: { steam: '367520' } })];
+
+        expect(await enrichWithItad(deals)).toEqual({ deals });
+        expect(server.requests).toHaveLength(0);
+    });
+});
@@ -0,0 +1,137 @@
+import type { Deal } from '@/lib/deals';
+import { getItadConfig } from '@/lib/config';
+import { fetchJson } from '@/lib/http';
+
+// IsThereAnyDeal API client. Used as a deal source (providers/itad.ts) and to enrich the
+// store fetchers' deals with ITAD game IDs and all-time lows, which cover years of prices
+// from before this bot started recording its own history.
+
+const STEAM_SHOP_ID = 61;
+const LOOKUP_BATCH = 200;
+const LOW_CACHE_MS = 6 * 60 * 60 * 1000;
+
+export interface ItadPrice {
+    amount: number;
+    currency: string;
+}
+
+export interface ItadDealItem {
+    id: string;
+    slug: string;
+    title: string;
+    type: string | null;   // game, dlc, package, ...
+    mature: boolean;
+    assets: Partial<Record<'boxart' | 'banner145' | 'banner300' | 'banner400' | 'banner600', string>>;
+    deal: {
+        shop: { id: number; name: string };
+        price: ItadPrice;
+        regular: ItadPrice;
+        cut: number;
+        historyLow: ItadPrice | null;
+        url: string;
+    };
+}
+
+export const isItadConfigured = (): boolean => !!getItadConfig().apiKey;
+
+const apiUrl = (pathname: string, params: Record<string, string | number> = {}): string => {
+    const { apiUrl: base, apiKey } = getItadConfig();
+    const url = new URL(`${base}${pathname}`);
+    url.searchParams.set('key', apiKey || '');
+    for (const [name, value] of Object.entries(params)) url.searchParams.set(name, String(value));
+    return url.toString();
+};
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+    Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// Current deals from the configured shops, trending first
+export async function fetchItadDeals(limit = 100): Promise<ItadDealItem[]> {
+    const { country, shops } = getItadConfig();
+    const data = await fetchJson<{ list: ItadDealItem[] }>(apiUrl('/deals/v2', {
+        country,
+        shops: shops.join(','),
+        limit,
+        sort: 'trending',
+        mature: 'false'
+    }));
+    return data.list || [];
+}
+
+// Game IDs by Steam app ID ("app/<id>") and, for everything else, by title
+export async function lookupGameIds(
+    steamAppIds: string[],
+    titles: string[]
+): Promise<{ bySteamApp: Map<string, string>; byTitle: Map<string, string> }> {
+    const bySteamApp = new Map<string, string>();
+    const byTitle = new Map<string, string>();
+
+    for (const batch of chunk(steamAppIds, LOOKUP_BATCH)) {
+        const found = await fetchJson<Record<string, string | null>>(
+            apiUrl(`/lookup/id/shop/${STEAM_SHOP_ID}/v1`),
+            { body: batch.map(id => `app/${id}`) }
+        );
+        for (const id of batch) {
+            const gameId = found[`app/${id}`];
+            if (gameId) bySteamApp.set(id, gameId);
+        }
+    }
+
+    for (const batch of chunk(titles, LOOKUP_BATCH)) {
+        const found = await fetchJson<Record<string, string | null>>(apiUrl('/lookup/id/title/v1'), { body: batch });
+        for (const title of batch) {
+            if (found[title]) byTitle.set(title, found[title]!);
+        }
+    }
+
+    return { bySteamApp, byTitle };
+}
+
+// All-time low per ITAD game ID, in the configured country's currency
+export async function loadHistoryLows(gameIds: string[]): Promise<Map<string, ItadPrice>> {
+    const { country } = getItadConfig();
+    const lows = new Map<string, ItadPrice>();
+
+    for (const batch of chunk(gameIds, LOOKUP_BATCH)) {
+        const data = await fetchJson<{ id: string; low: { price: ItadPrice } | null }[]>(
+            apiUrl('/games/historylow/v1', { country }),
+            { body: batch, cacheTtlMs: LOW_CACHE_MS }
+        );
+        for (const entry of data) {
+            if (entry.low?.price) lows.set(entry.id, entry.low.price);
+        }
+    }
+
+    return lows;
+}
+
+// Attach ITAD game IDs and all-time lows to deals that don't have them yet.
+// Never fails the run: on error the deals come back as they were.
+export async function enrichWithItad(deals: Deal[]): Promise<{ deals: Deal[]; error?: string }> {
+    if (!isItadConfigured() || deals.length === 0) return { deals };
+
+    try {
+        const missing = deals.filter(d => !d.external_ids?.itad);
+        const steamAppIds = Array.from(new Set(missing.map(d => d.external_ids?.steam).filter((id): id is string => !!id)));
+        const titles = Array.from(new Set(missing.filter(d => !d.external_ids?.steam).map(d => d.name)));
+        const { bySteamApp, byTitle } = await lookupGameIds(steamAppIds, titles);
+
+        const withIds = deals.map(deal => {
+            const itadId = deal.external_ids?.itad ||
+                (deal.external_ids?.steam ? bySteamApp.get(deal.external_ids.steam) : byTitle.get(deal.name));
+            return itadId ? { ...deal, external_ids: { ...deal.external_ids, itad: itadId } } : deal;
+        });
+
+        const needLows = withIds.filter(d => !d.itad_low && d.external_ids?.itad);
+        const lows = await loadHistoryLows(Array.from(new Set(needLows.map(d => d.external_ids!.itad!))));
+
+        return {
+            deals: withIds.map(deal => {
+                const low = deal.itad_low ? undefined : lows.get(deal.external_ids?.itad || '');
+                return low ? { ...deal, itad_low: { amount: low.amount, currency: low.currency } } : deal;
+            })
+        };
+    } catch (e) {
+        return { deals, error: e instanceof Error ? e.message : String(e) };
+    }
+}
@@ -0,0 +1,23 @@
+import { requestJson } from '@/lib/publishing';
+import type { Notifier } from '@/lib/wishlist';
+
+// Any HTTP mail API that takes Resend's request shape ({ from, to, subject, text });
+// EMAIL_API_URL swaps the provider
+const apiUrl = () => process.env.EMAIL_API_URL || 'https://api.resend.com/emails';
+
+export const emailNotifier: Notifier = {
+    id: 'email',
+
+    isConfigured: () => !!(process.env.EMAIL_API_KEY && process.env.EMAIL_FROM),
+
+    async send(contact, subject, text) {
+        await requestJson(apiUrl(), {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${process.env.EMAIL_API_KEY}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ from: process.env.EMAIL_FROM, to: [contact], subject, text })
+        }, 'Email');
+    }
+};
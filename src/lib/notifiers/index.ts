@@ -0,0 +1,11 @@
+import type { Notifier } from '@/lib/wishlist';
+import { telegramNotifier } from './telegram';
+import { emailNotifier } from './email';
+
+const NOTIFIERS: Notifier[] = [
+    telegramNotifier,
+    emailNotifier
+];
+
+// Alert channels with credentials
+export const getEnabledNotifiers = (): Notifier[] => NOTIFIERS.filter(n => n.isConfigured());
@@ -0,0 +1,19 @@
+import { requestJson } from '@/lib/publishing';
+import type { Notifier } from '@/lib/wishlist';
+
+// Same bot as the Telegram publisher; contact is the subscriber's chat ID
+const apiUrl = () => process.env.TELEGRAM_API_URL || 'https://api.telegram.org';
+
+export const telegramNotifier: Notifier = {
+    id: 'telegram',
+
+    isConfigured: () => !!process.env.TELEGRAM_BOT_TOKEN,
+
+    async send(contact, _subject, text) {
+        await requestJson(`${apiUrl()}/bot${process.env.TELEGRAM_BOT_TOKEN}/sendMessage`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ chat_id: contact, text })
+        }, 'Telegram');
+    }
+};
@@ -0,0 +1,93 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { normalizeGameName, type Deal } from '@/lib/deals';
+
+// Manual overrides managed through /api/admin/* (supabase/migrations/0002_overrides.sql)
+
+export type OverrideTable = 'blocked_games' | 'pinned_deals';
+
+export interface Override {
+    id: number;
+    title: string;
+    reason: string | null;
+    expires_at: string | null;
+    created_at: string;
+}
+
+export interface OverrideInput {
+    title: string;
+    reason?: string;
+    expiresAt?: string;
+}
+
+// Expired rows are kept for the record but ignored
+export async function listOverrides(
+    supabaseAdmin: SupabaseClient,
+    table: OverrideTable,
+    includeExpired = false
+): Promise<{ overrides: Override[]; error?: string }> {
+    let query = supabaseAdmin
+        .from(table)
+        .select('id, title, reason, expires_at, created_at')
+        .order('created_at', { ascending: false });
+
+    if (!includeExpired) {
+        query = query.or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+    }
+
+    const { data, error } = await query;
+    return { overrides: data || [], error: error?.message };
+}
+
+export async function addOverride(
+    supabaseAdmin: SupabaseClient,
+    table: OverrideTable,
+    input: OverrideInput
+): Promise<{ override?: Override; error?: string }> {
+    const { data, error } = await supabaseAdmin
+        .from(table)
+        .insert({
+            title: input.title.trim(),
+            reason: input.reason || null,
+            expires_at: input.expiresAt || null
+        })
+        .select('id, title, reason, expires_at, created_at')
+        .single();
+
+    return { override: data || undefined, error: error?.message };
+}
+
+export async function removeOverride(
+    supabaseAdmin: SupabaseClient,
+    table: OverrideTable,
+    id: number
+): Promise<{ error?: string }> {
+    const { error } = await supabaseAdmin.from(table).delete().eq('id', id);
+    return { error: error?.message };
+}
+
+// Blocks match anywhere in the title ("skald" also blocks "Skald: Against the Black Priory")
+export const findBlock = (game: Deal, blocks: Override[]): Override | undefined =>
+    blocks.find(b => normalizeGameName(game.name).includes(normalizeGameName(b.title)));
+
+// Pins must name the game exactly (ignoring case and punctuation)
+export const findPin = (game: Deal, pins: Override[]): Override | undefined =>
+    pins.find(p => normalizeGameName(game.name) === normalizeGameName(p.title));
+
+// Validate an admin request body, returning an error message for bad input
+export const parseOverrideInput = (body: any): OverrideInput | string => {
+    if (!body || typeof body.title !== 'string' || !body.title.trim()) {
+        return 'title is required';
+    }
+    if (body.reason !== undefined && typeof body.reason !== 'string') {
+        return 'reason must be a string';
+    }
+    if (body.expiresAt !== undefined && isNaN(Date.parse(body.expiresAt))) {
+        return 'expiresAt must be an ISO date';
+    }
+
+    return {
+        title: body.title,
+        reason: body.reason,
+        expiresAt: body.expiresAt ? new Date(body.expiresAt).toISOString() : undefined
+    };
+};
@@ -0,0 +1,8 @@
+import type { Deal } from '@/lib/deals';
+import { getIdentity } from '@/lib/identity';
+
+// Public URLs shared by pages and feeds
+
+export const gamePath = (gameId: string) => `/oyun/${encodeURIComponent(gameId)}`;
+
+export const dealPath = (deal: Deal) => gamePath(deal.canonical_id || getIdentity(deal).canonicalId);
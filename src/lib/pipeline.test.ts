@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Deal } from '@/lib/deals';
+import { collectDeals, fetchDealImage } from '@/lib/pipeline';
+import { getExchangeRates } from '@/lib/pricing';
+import { rankDeals } from '@/lib/scoring';
+import { steamProvider } from '@/lib/providers/steam';
+import { gogProvider } from '@/lib/providers/gog';
+import { epicProvider } from '@/lib/providers/epic';
+
+// The shared pipeline over fixtures in src/test/fixtures/http (HTTP_MODE=replay), with the
+// network switched off. The fixtures are trimmed Steam, GOG, Epic, CheapShark and exchange
+// rate responses in the format HTTP_MODE=record writes; artwork is stored base64-encoded.
+// Re-record with HTTP_MODE=record HTTP_FIXTURES_DIR=src/test/fixtures/http and a dry run.
+
+const providers = [steamProvider, gogProvider, epicProvider];
+
+const selectTopDeals = async () => {
+    const { providerResults, uniqueDeals } = await collectDeals(providers);
+    const rates = await getExchangeRates();
+    return { providerResults, rates, ranked: rankDeals(uniqueDeals, () => ({ rates })) };
+};
+
+beforeEach(() => {
+    vi.stubEnv('HTTP_MODE', 'replay');
+    vi.stubEnv('HTTP_FIXTURES_DIR', 'src/test/fixtures/http');
+    vi.stubGlobal('fetch', () => Promise.reject(new Error('network access in a replay test')));
+    // Inside the recorded Epic free-game window
+    vi.useFakeTimers({ now: new Date('2026-06-01T12:00:00Z'), toFake: ['Date'] });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+});
+
+describe('pipeline replay', () => {
+    it('selects the same deals from recorded responses without touching the network', async () => {
+        const { providerResults, rates, ranked } = await selectTopDeals();
+
+        expect(providerResults.map(r => [r.provider.id, r.deals.length, r.error])).toEqual([
+            ['steam', 3, undefined],
+            ['gog', 2, undefined],
+            ['epic', 3, undefined]
+        ]);
+        expect(rates).toMatchObject({ source: 'live', rates: { TRY: 39.12 } });
+        expect(ranked.map(({ deal }) => `${deal.name} [${deal.platform}]`)).toEqual([
+            'Alan Wake Remastered [Epic Games]',
+            'Control Ultimate Edition [Epic Games]',
+            'The Witcher 3: Wild Hunt - Complete Edition [GOG]',
+            'Disco Elysium - The Final Cut [Steam]',
+            'Hades [Steam]',
+            'Hollow Knight [Steam]'
+        ]);
+    });
+
+    it('is deterministic across runs', async () => {
+        const first = await selectTopDeals();
+        const second = await selectTopDeals();
+        expect(second.ranked.map(r => r.score)).toEqual(first.ranked.map(r => r.score));
+    });
+
+    it('merges the same game across stores and keeps the better deal', async () => {
+        const { ranked } = await selectTopDeals();
+        const disco = ranked.filter(({ deal }) => deal.name.startsWith('Disco Elysium'));
+
+        expect(disco).toHaveLength(1);
+        expect(disco[0].deal).toMatchObject({ platform: 'Steam', discount_percent: 75 });
+        expect(disco[0].deal.external_ids).toMatchObject({ steam: '632470', gog: '1440164514' });
+    });
+
+    it('replays artwork byte for byte', async () => {
+        const { ranked } = await selectTopDeals();
+        const { image } = await fetchDealImage(ranked[0].deal);
+
+        expect(image?.mimeType).toBe('image/png');
+        expect(image?.buffer.subarray(1, 4).toString('ascii')).toBe('PNG');
+        expect(image?.buffer.readUInt32BE(16)).toBe(460);
+    });
+
+    it('reports artwork it could not fetch instead of throwing', async () => {
+        const deal = { name: 'Missing', header_image: 'https://cdn1.epicgames.com/not-recorded.jpg' } as Deal;
+
+        expect(await fetchDealImage(deal)).toEqual({ error: expect.stringContaining('No recorded response') });
+    });
+
+    it('fails a provider, not the run, when a response was never recorded', async () => {
+        vi.stubEnv('HTTP_FIXTURES_DIR', 'src/test/fixtures/missing');
+        const { providerResults, rates } = await selectTopDeals();
+
+        // Steam and GOG responses aren't cached between runs (Epic's free games are)
+        for (const result of providerResults.slice(0, 2)) {
+            expect(result.deals).toEqual([]);
+            expect(result.error).toContain('No recorded response');
+        }
+        expect(rates.source).toBe('fallback');
+    });
+});
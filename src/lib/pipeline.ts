@@ -0,0 +1,209 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { unstable_cache } from 'next/cache';
+import { normalizeGameName, type Deal, type DealProvider } from '@/lib/deals';
+import { getIdentity, groupByGame, matchesPost } from '@/lib/identity';
+import { fetchAllDeals, getEnabledProviders, type ProviderResult } from '@/lib/providers';
+import { rankDeals, type ScoredDeal } from '@/lib/scoring';
+import type { PostImage } from '@/lib/publishing';
+import { convert, getExchangeRates, salePrice, type RateTable } from '@/lib/pricing';
+import { applyPriceStats, loadPriceStats } from '@/lib/history';
+import { classifyDeal, isPostableType } from '@/lib/classifier';
+import { findBlock, listOverrides } from '@/lib/overrides';
+import { enrichWithItad } from '@/lib/itad';
+import { getAccount } from '@/lib/accounts';
+import type { PostedGamesRepository } from '@/lib/repository';
+import type { PostMode } from '@/lib/formats';
+import { fetchBinary, HttpError } from '@/lib/http';
+
+// Shared selection steps used by the cron handler (live and dry-run)
+
+export type SkipReason =
+    | 'content_type'
+    | 'already_posted'
+    | 'no_image'
+    | 'blacklisted'
+    | 'image_failed'
+    | 'post_failed'
+    | 'platform_budget'
+    | 'lower_ranked'
+    | 'free_promotion';
+
+export interface Candidate {
+    name: string;
+    platform: string;
+    discount_percent: number;
+    final_price: number;
+    score: number;
+    status: 'selected' | 'skipped' | 'not_checked';
+    reason?: SkipReason;
+    detail?: string;
+}
+
+export interface RecentPost {
+    id: number;
+    game_id: string | null;
+    game_title: string;
+    platform: string | null;
+    format: PostMode;
+    created_at: string;
+}
+
+// allDeals keeps every fetched deal (tagged with its game's canonical ID) for price history.
+// Defaults to the enabled providers; pass fixture-backed ones to run the pipeline offline.
+export async function collectDeals(providers: DealProvider[] = getEnabledProviders()): Promise<{
+    providerResults: ProviderResult[];
+    allDeals: Deal[];
+    uniqueDeals: Deal[];
+}> {
+    const providerResults = await fetchAllDeals(providers);
+
+    // ITAD IDs make cross-store matches exact where titles differ
+    const { deals: fetchedDeals, error: itadError } = await enrichWithItad(providerResults.flatMap(r => r.deals));
+    if (itadError) console.error('ITAD enrichment error:', itadError);
+
+    const groups = groupByGame(fetchedDeals);
+    const allDeals = groups.flatMap(({ canonicalId, deals }) =>
+        deals.map(deal => ({ ...deal, canonical_id: canonicalId }))
+    );
+
+    // Keep best deal per game (highest discount, then lowest price). Games are matched
+    // across stores by identity, and the kept deal inherits every store ID of its group.
+    const bestDeals: Deal[] = groups.map(({ canonicalId, deals }) => {
+        const best = deals.reduce((existing, deal) => {
+            const isBetterDiscount = deal.discount_percent > existing.discount_percent;
+            const isSameDiscountLowerPrice = deal.discount_percent === existing.discount_percent
+                && deal.final_price < existing.final_price;
+            return isBetterDiscount || isSameDiscountLowerPrice ? deal : existing;
+        });
+
+        return {
+            ...best,
+            external_ids: Object.assign({}, ...deals.map(d => d.external_ids), best.external_ids),
+            itad_low: best.itad_low || deals.find(d => d.itad_low?.currency === best.currency)?.itad_low,
+            canonical_id: canonicalId
+        };
+    });
+
+    const uniqueDeals = bestDeals
+        .sort((a, b) => b.discount_percent - a.discount_percent);
+
+    return { providerResults, allDeals, uniqueDeals };
+}
+
+// Bigger pools can afford a longer wait before a game is posted again
+export const getRepostHours = (poolSize: number): number => {
+    if (poolSize >= 50) return 120;
+    if (poolSize >= 30) return 72;
+    return 48;
+};
+
+// Load everything the active account posted since `since` once instead of querying per game (newest first)
+export const loadRecentPosts = (
+    postedGames: PostedGamesRepository,
+    since: string
+): Promise<{ posts: RecentPost[]; error?: string }> => postedGames.listSince(getAccount().id, since);
+
+// Match by game identity (store IDs, then title) rather than by title prefix
+export const findRecentPost = (game: Deal, recentPosts: RecentPost[]): RecentPost | undefined => {
+    const identity = getIdentity(game);
+    return recentPosts.find(p => matchesPost(identity, p));
+};
+
+export const toCandidate = (
+    { deal: game, score }: ScoredDeal,
+    status: Candidate['status'],
+    reason?: SkipReason,
+    detail?: string
+): Candidate => ({
+    name: game.name,
+    platform: game.platform,
+    discount_percent: game.discount_percent,
+    final_price: game.final_price,
+    score: score.total,
+    status,
+    ...(reason && { reason }),
+    ...(detail && { detail })
+});
+
+// Through the shared HTTP client, so artwork is recorded and replayed with the store responses.
+// Never throws: an HTTP error status comes back as `status`, timeouts and open circuits as `error`,
+// so a slow image host costs the post its artwork rather than failing the run.
+export async function fetchDealImage(game: Deal): Promise<{ image?: PostImage; status?: number; error?: string }> {
+    if (!game.header_image) return {};
+
+    try {
+        const { buffer, contentType } = await fetchBinary(game.header_image);
+        return { image: { buffer, mimeType: contentType?.split(';')[0] || 'image/jpeg' } };
+    } catch (e) {
+        if (e instanceof HttpError && e.status) return { status: e.status };
+        return { error: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+// posted_games row for a published deal; its id links the post_deliveries rows. tweetId lets
+// /api/metrics collect engagement for the post (see engagement.ts). `format` is the thread or
+// digest the deal went out in, if any.
+export const recordPostedGame = (
+    postedGames: PostedGamesRepository,
+    game: Deal,
+    rates: RateTable,
+    tweetId: string | null = null,
+    format: PostMode = 'single'
+): Promise<{ id?: number; error?: string }> =>
+    postedGames.insert({
+        account: getAccount().id,
+        app_id: parseInt(game.id.replace(/\D/g, '').slice(0, 9)) || 0,
+        game_id: game.canonical_id || getIdentity(game).canonicalId,
+        game_title: normalizeGameName(game.name),
+        platform: game.platform,
+        price_usd: convert(salePrice(game), 'USD', rates).amount || 0,
+        discount_percent: game.discount_percent,
+        tweet_id: tweetId,
+        format
+    });
+
+// Current postable deals for public pages: same fetch, dedupe, classifier, blocklist,
+// price history and scoring as the cron run, minus the repost window.
+// Store fetches are cached for 10 minutes so page views don't hammer the store APIs.
+const getCachedDeals = unstable_cache(
+    async () => (await collectDeals()).uniqueDeals,
+    ['current-deals'],
+    { revalidate: 600 }
+);
+
+// Without Supabase (STORAGE_BACKEND=memory) there are no blocks or price history to apply
+export async function loadPublicDeals(supabaseAdmin?: SupabaseClient): Promise<{ deals: Deal[]; rates: RateTable }> {
+    const [fetchedDeals, rates, blockResult] = await Promise.all([
+        getCachedDeals(),
+        getExchangeRates(supabaseAdmin),
+        supabaseAdmin ? listOverrides(supabaseAdmin, 'blocked_games') : { overrides: [] }
+    ]);
+
+    const gameIds = fetchedDeals.map(d => d.canonical_id!).filter(Boolean);
+    const { stats } = supabaseAdmin ? await loadPriceStats(supabaseAdmin, gameIds) : { stats: [] };
+    const eligible = fetchedDeals
+        .map(deal => applyPriceStats(deal, stats))
+        .filter(deal => isPostableType(classifyDeal(deal).type) && !findBlock(deal, blockResult.overrides));
+
+    return { deals: rankDeals(eligible, () => ({ rates })).map(({ deal }) => deal), rates };
+}
+
+export interface PostedGame {
+    id: number;
+    game_id: string | null;
+    game_title: string;
+    platform: string | null;
+    price_usd: number;
+    discount_percent: number | null;
+    created_at: string;
+}
+
+export async function loadPostedFeed(
+    postedGames: PostedGamesRepository,
+    limit = 20,
+    offset = 0
+): Promise<PostedGame[]> {
+    const { posts, error } = await postedGames.listLatest(getAccount().id, limit, offset);
+    if (error) console.error('Posted feed error:', error);
+    return posts;
+}
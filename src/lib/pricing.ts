@@ -0,0 +1,111 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Deal } from '@/lib/deals';
+import { getPricingConfig } from '@/lib/config';
+import { fetchJson } from '@/lib/http';
+
+// Money always travels with its currency; conversion happens only when formatting for a region.
+// The last good rates are kept in exchange_rates (supabase/migrations/0006_exchange_rates.sql).
+
+export interface Money {
+    amount: number;
+    currency: string;
+}
+
+export interface RateTable {
+    base: 'USD';
+    rates: Record<string, number>;   // Units of currency per 1 USD
+    source: 'live' | 'cache' | 'stale' | 'fallback';
+    fetchedAt: string | null;
+}
+
+// Last resort when both the API and the cache are unavailable
+const FALLBACK_RATES: Record<string, number> = { USD: 1, TRY: 35, EUR: 0.92 };
+
+const CURRENCY_SYMBOLS: Record<string, string> = { TRY: '₺', USD: '$', EUR: '€' };
+
+async function fetchLiveRates(): Promise<Record<string, number> | null> {
+    try {
+        const data = await fetchJson<{ rates?: Record<string, number> }>('https://api.exchangerate-api.com/v4/latest/USD');
+        return data.rates || null;
+    } catch (e) {
+        console.error('Exchange rate fetch failed:', e);
+    }
+    return null;
+}
+
+// Cached rates are used while fresh; after the TTL we try the API and fall back to the
+// stale cache, then to hardcoded rates. `source` says which one was used.
+// readOnly still uses the cache but never refreshes it (dry runs write nothing).
+export async function getExchangeRates(
+    supabaseAdmin?: SupabaseClient,
+    { readOnly = false }: { readOnly?: boolean } = {}
+): Promise<RateTable> {
+    const { rateTtlHours } = getPricingConfig();
+
+    let cached: { rates: Record<string, number>; fetched_at: string } | null = null;
+    if (supabaseAdmin) {
+        const { data, error } = await supabaseAdmin
+            .from('exchange_rates')
+            .select('rates, fetched_at')
+            .eq('base', 'USD')
+            .maybeSingle();
+        if (error) console.error('Exchange rate cache read failed:', error.message);
+        cached = data;
+    }
+
+    const cacheAgeHours = cached ? (Date.now() - Date.parse(cached.fetched_at)) / (60 * 60 * 1000) : Infinity;
+    if (cached && cacheAgeHours < rateTtlHours) {
+        return { base: 'USD', rates: cached.rates, source: 'cache', fetchedAt: cached.fetched_at };
+    }
+
+    const live = await fetchLiveRates();
+    if (live) {
+        const fetchedAt = new Date().toISOString();
+        if (supabaseAdmin && !readOnly) {
+            const { error } = await supabaseAdmin
+                .from('exchange_rates')
+                .upsert({ base: 'USD', rates: live, fetched_at: fetchedAt });
+            if (error) console.error('Exchange rate cache write failed:', error.message);
+        }
+        return { base: 'USD', rates: live, source: 'live', fetchedAt };
+    }
+
+    if (cached) {
+        return { base: 'USD', rates: cached.rates, source: 'stale', fetchedAt: cached.fetched_at };
+    }
+    return { base: 'USD', rates: FALLBACK_RATES, source: 'fallback', fetchedAt: null };
+}
+
+export const describeRates = (table: RateTable): string => {
+    const tryRate = table.rates.TRY?.toFixed(2) || '?';
+    switch (table.source) {
+        case 'live': return `💱 USD/TRY ${tryRate} (live)`;
+        case 'cache': return `💱 USD/TRY ${tryRate} (cached ${table.fetchedAt})`;
+        case 'stale': return `⚠️ STALE exchange rates from ${table.fetchedAt}: USD/TRY ${tryRate}`;
+        case 'fallback': return `⚠️ FALLBACK exchange rates in use: USD/TRY ${tryRate}`;
+    }
+};
+
+// Unknown currencies are passed through unconverted rather than guessed
+export const convert = (money: Money, to: string, table: RateTable): Money => {
+    if (money.currency === to) return money;
+    const from = table.rates[money.currency];
+    const target = table.rates[to];
+    if (!from || !target) return money;
+    return { amount: (money.amount / from) * target, currency: to };
+};
+
+export const salePrice = (deal: Deal): Money => ({ amount: deal.final_price, currency: deal.currency });
+
+export const originalPrice = (deal: Deal): Money | null =>
+    deal.original_price ? { amount: deal.original_price, currency: deal.currency } : null;
+
+// Converted amounts are estimates, so TL is rounded to whole lira; store prices keep 2 decimals
+export const formatMoney = (money: Money, converted = false): string => {
+    const decimals = converted && money.currency === 'TRY' ? 0 : 2;
+    const value = money.amount.toFixed(decimals);
+    const symbol = CURRENCY_SYMBOLS[money.currency];
+
+    if (!symbol) return `${value} ${money.currency}`;
+    return money.currency === 'TRY' ? `${value} ${symbol}` : `${symbol}${value}`;
+};
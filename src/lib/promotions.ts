@@ -0,0 +1,89 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FreeWindowPhase } from '@/lib/deals';
+import type { EpicFreeGame } from '@/lib/providers/epic';
+import { getAccount } from '@/lib/accounts';
+
+// Epic free-game windows. Each window is announced up to three times - a week ahead,
+// when it goes live and on its last day - independent of the regular repost window.
+// Tracked per account in free_promotions
+// (supabase/migrations/0007_free_promotions.sql, 0010_accounts.sql).
+
+const HOUR_MS = 60 * 60 * 1000;
+const UPCOMING_LEAD_HOURS = 7 * 24;   // Epic reveals next week's games a week ahead
+const ENDING_HOURS = 24;
+
+export interface FreePromotion extends EpicFreeGame {
+    id: number;
+    announced_upcoming_at: string | null;
+    announced_live_at: string | null;
+    announced_ending_at: string | null;
+}
+
+export interface DueAnnouncement {
+    promotion: FreePromotion;
+    phase: FreeWindowPhase;
+}
+
+// Insert new windows and refresh the details of known ones; announcement marks are kept
+export async function syncPromotions(
+    supabaseAdmin: SupabaseClient,
+    freeGames: EpicFreeGame[]
+): Promise<{ error?: string }> {
+    if (freeGames.length === 0) return {};
+    const account = getAccount().id;
+    const { error } = await supabaseAdmin
+        .from('free_promotions')
+        .upsert(freeGames.map(game => ({ ...game, account })), { onConflict: 'account,deal_id,starts_at' });
+    return { error: error?.message };
+}
+
+// The active account's windows that haven't ended yet
+export async function loadPromotions(
+    supabaseAdmin: SupabaseClient,
+    now = new Date()
+): Promise<{ promotions: FreePromotion[]; error?: string }> {
+    const { data, error } = await supabaseAdmin
+        .from('free_promotions')
+        .select('*')
+        .eq('account', getAccount().id)
+        .gt('ends_at', now.toISOString())
+        .order('starts_at', { ascending: true });
+    return { promotions: (data as FreePromotion[]) || [], error: error?.message };
+}
+
+// At most one announcement per window per run. A window already in its last 24 hours
+// gets the "ending" post only, so a late first sighting doesn't post twice in a row.
+export const dueAnnouncements = (promotions: FreePromotion[], now = new Date()): DueAnnouncement[] => {
+    const due: DueAnnouncement[] = [];
+
+    for (const promotion of promotions) {
+        const untilStart = (Date.parse(promotion.starts_at) - now.getTime()) / HOUR_MS;
+        const untilEnd = (Date.parse(promotion.ends_at) - now.getTime()) / HOUR_MS;
+        if (untilEnd <= 0) continue;
+
+        if (untilStart > 0) {
+            if (!promotion.announced_upcoming_at && untilStart <= UPCOMING_LEAD_HOURS) {
+                due.push({ promotion, phase: 'upcoming' });
+            }
+        } else if (untilEnd <= ENDING_HOURS) {
+            if (!promotion.announced_ending_at) due.push({ promotion, phase: 'ending' });
+        } else if (!promotion.announced_live_at) {
+            due.push({ promotion, phase: 'live' });
+        }
+    }
+
+    return due;
+};
+
+export async function markAnnounced(
+    supabaseAdmin: SupabaseClient,
+    promotion: FreePromotion,
+    phase: FreeWindowPhase,
+    now = new Date()
+): Promise<{ error?: string }> {
+    const { error } = await supabaseAdmin
+        .from('free_promotions')
+        .update({ [`announced_${phase}_at`]: now.toISOString() })
+        .eq('id', promotion.id);
+    return { error: error?.message };
+}
@@ -0,0 +1,140 @@
+import type { Deal, DealProvider, FreeWindowPhase } from '@/lib/deals';
+import { fetchJson } from '@/lib/http';
+import { getAccount } from '@/lib/accounts';
+import { getMessages } from '@/lib/i18n';
+
+const MIN_METACRITIC = 60; // For CheapShark games
+
+// A free-game promotion window from Epic, current or upcoming
+export interface EpicFreeGame {
+    deal_id: string;
+    title: string;
+    namespace: string | null;   // Epic catalog namespace
+    url: string;
+    header_image: string | null;
+    starts_at: string;
+    ends_at: string;
+}
+
+// Store page links in the active account's language
+const storeUrl = (pathname: string): string =>
+    `https://store.epicgames.com/${getMessages().storeLocale}${pathname}`;
+
+// Current and upcoming 100% off promotions in the active account's region. Epic lists next
+// week's games under upcomingPromotionalOffers as soon as this week's go live.
+export async function fetchEpicFreeGames(): Promise<EpicFreeGame[]> {
+    // Cached briefly: the provider and the free-game announcements both read it each run
+    const { region } = getAccount();
+    const data = await fetchJson(
+        `https://store-site-backend-static.ak.epicgames.com/freeGamesPromotions?locale=${getMessages().storeLocale}&country=${region}`,
+        { cacheTtlMs: 5 * 60 * 1000 }
+    );
+    const games = data.data?.Catalog?.searchStore?.elements || [];
+    const freeGames: EpicFreeGame[] = [];
+
+    for (const game of games) {
+        if (!game.title || !game.promotions) continue;
+        const slug = game.productSlug || game.urlSlug || game.catalogNs?.mappings?.[0]?.pageSlug;
+        if (!slug || slug === '[]') continue;
+
+        const offers = [
+            ...(game.promotions.promotionalOffers?.[0]?.promotionalOffers || []),
+            ...(game.promotions.upcomingPromotionalOffers?.[0]?.promotionalOffers || [])
+        ];
+        for (const offer of offers) {
+            if (offer.discountSetting?.discountPercentage !== 0 || !offer.startDate || !offer.endDate) continue;
+            freeGames.push({
+                deal_id: `epic_free_${game.id}`,
+                title: game.title,
+                namespace: game.namespace || null,
+                url: storeUrl(`/p/${slug}`),
+                header_image: game.keyImages?.find((img: any) => img.type === 'OfferImageWide')?.url ||
+                    game.keyImages?.[0]?.url || null,
+                starts_at: new Date(offer.startDate).toISOString(),
+                ends_at: new Date(offer.endDate).toISOString()
+            });
+        }
+    }
+
+    return freeGames;
+}
+
+// Deal for a free-game window; the phase picks the post template (see tweet.ts)
+export const promotionDeal = (promo: EpicFreeGame, phase: FreeWindowPhase): Deal => ({
+    id: promo.deal_id,
+    name: promo.title,
+    discount_percent: 100,
+    final_price: 0,
+    currency: 'USD',
+    platform: 'Epic Games',
+    metacritic: 90,
+    external_ids: promo.namespace ? { epic: promo.namespace } : undefined,
+    url: promo.url,
+    header_image: promo.header_image,
+    free_window: { starts_at: promo.starts_at, ends_at: promo.ends_at, phase }
+});
+
+// Epic = free games from the direct API + sales through CheapShark
+export const epicProvider: DealProvider = {
+    id: 'epic',
+    platform: 'Epic Games',
+    emoji: '🎮',
+    brandColor: '#2a2a2a',
+    defaultCurrency: 'USD', // CheapShark prices in USD; free games are 0 anyway
+
+    async fetchDeals(): Promise<Deal[]> {
+        const deals: Deal[] = [];
+        const errors: string[] = [];
+
+        // Epic Free Games (direct API) - only the ones claimable right now
+        try {
+            const now = Date.now();
+            for (const promo of await fetchEpicFreeGames()) {
+                if (Date.parse(promo.starts_at) > now || Date.parse(promo.ends_at) <= now) continue;
+                deals.push(promotionDeal(promo, 'live'));
+            }
+        } catch (e) {
+            console.error('Epic free games error:', e);
+            errors.push(`free games: ${e instanceof Error ? e.message : e}`);
+        }
+
+        // CheapShark for Epic sales (fast, no API key, Metacritic filter)
+        try {
+            const data = await fetchJson(`https://www.cheapshark.com/api/1.0/deals?storeID=25&upperPrice=50&onSale=1&pageSize=20&metacritic=${MIN_METACRITIC}`);
+            for (const game of data) {
+                const discount = Math.round(parseFloat(game.savings) || 0);
+                if (discount >= 50) {
+                    const alreadyAdded = deals.some(d => d.name.toLowerCase() === game.title.toLowerCase());
+                    if (!alreadyAdded) {
+                        const steamAppId = game.steamAppID;
+
+                        deals.push({
+                            id: `epic_cs_${game.dealID}`,
+                            name: game.title,
+                            discount_percent: discount,
+                            final_price: parseFloat(game.salePrice) || 0,
+                            original_price: parseFloat(game.normalPrice) || undefined,
+                            currency: 'USD',
+                            platform: this.platform,
+                            metacritic: parseInt(game.metacriticScore) || 0,
+                            steam_review_percent: parseInt(game.steamRatingPercent) || undefined,
+                            steam_review_count: parseInt(game.steamRatingCount) || undefined,
+                            external_ids: steamAppId && steamAppId !== '0' ? { steam: steamAppId } : undefined,
+                            url: storeUrl(`/browse?q=${encodeURIComponent(game.title)}`),
+                            header_image: steamAppId
+                                ? `https://cdn.akamai.steamstatic.com/steam/apps/${steamAppId}/header.jpg`
+                                : game.thumb || null
+                        });
+                    }
+                }
+            }
+        } catch (e) {
+            console.error('CheapShark Epic error:', e);
+            errors.push(`CheapShark: ${e instanceof Error ? e.message : e}`);
+        }
+
+        // One source down still gives a partial list; both down is a failed fetch
+        if (errors.length === 2) throw new Error(errors.join('; '));
+        return deals;
+    }
+};
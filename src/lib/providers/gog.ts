@@ -0,0 +1,51 @@
+import type { ContentType, Deal, DealProvider } from '@/lib/deals';
+import { fetchJson } from '@/lib/http';
+import { getAccount } from '@/lib/accounts';
+
+const MIN_GOG_REVIEWS = 500;
+
+const GOG_PRODUCT_TYPES: Record<string, ContentType> = {
+    game: 'game',
+    pack: 'bundle',
+    dlc: 'dlc'
+};
+
+export const gogProvider: DealProvider = {
+    id: 'gog',
+    platform: 'GOG',
+    emoji: '🌌',
+    brandColor: '#86328a',
+    defaultCurrency: 'USD', // GOG reports the real currency per product, this is only the fallback
+
+    async fetchDeals(): Promise<Deal[]> {
+        const deals: Deal[] = [];
+
+        const data = await fetchJson(`https://catalog.gog.com/v1/catalog?limit=20&order=desc:discount&productType=in:game&countryCode=${getAccount().region}`);
+        const products = data.products || [];
+
+        for (const game of products) {
+            const discountStr = game.price?.discount || '0';
+            const discount = Math.abs(parseInt(discountStr.replace(/[^0-9-]/g, '')) || 0);
+            const reviewsCount = game.reviewsCount || 0;
+
+            if (discount >= 25 && reviewsCount >= MIN_GOG_REVIEWS) {
+                deals.push({
+                    id: `gog_${game.id}`,
+                    name: game.title,
+                    discount_percent: discount,
+                    final_price: parseFloat(game.price?.finalMoney?.amount) || 0,
+                    original_price: parseFloat(game.price?.baseMoney?.amount) || undefined,
+                    reviews_count: reviewsCount,
+                    store_type: GOG_PRODUCT_TYPES[game.productType],
+                    external_ids: { gog: game.id.toString() },
+                    currency: game.price?.finalMoney?.currency || this.defaultCurrency,
+                    platform: this.platform,
+                    url: game.storeLink || `https://www.gog.com/en/game/${game.slug}`,
+                    header_image: game.coverHorizontal || null
+                });
+            }
+        }
+
+        return deals;
+    }
+};
@@ -0,0 +1,50 @@
+import type { Deal, DealProvider } from '@/lib/deals';
+import { getProviderConfig } from '@/lib/config';
+import { steamProvider } from './steam';
+import { epicProvider } from './epic';
+import { gogProvider } from './gog';
+import { itadProvider } from './itad';
+
+// Register new stores here - the cron handler only talks to this list
+const PROVIDERS: DealProvider[] = [
+    steamProvider,
+    epicProvider,
+    gogProvider,
+    itadProvider
+];
+
+export const getEnabledProviders = (): DealProvider[] => {
+    const { enabled, disabled } = getProviderConfig();
+    return PROVIDERS.filter(p =>
+        (enabled.length === 0 || enabled.includes(p.id)) && !disabled.includes(p.id) &&
+        (!p.isConfigured || p.isConfigured())
+    );
+};
+
+export const getProviderByPlatform = (platform: string): DealProvider | undefined =>
+    PROVIDERS.find(p => p.platform === platform);
+
+export interface ProviderResult {
+    provider: DealProvider;
+    deals: Deal[];
+    durationMs: number;
+    error?: string;
+}
+
+// Fetch all providers in parallel. A failing provider contributes no deals instead of failing the run.
+export async function fetchAllDeals(providers: DealProvider[] = getEnabledProviders()): Promise<ProviderResult[]> {
+    return Promise.all(providers.map(async provider => {
+        const start = Date.now();
+        try {
+            return { provider, deals: await provider.fetchDeals(), durationMs: Date.now() - start };
+        } catch (e) {
+            console.error(`${provider.platform} error:`, e);
+            return {
+                provider,
+                deals: [],
+                durationMs: Date.now() - start,
+                error: e instanceof Error ? e.message : String(e)
+            };
+        }
+    }));
+}
@@ -0,0 +1,55 @@
+import type { ContentType, Deal, DealProvider } from '@/lib/deals';
+import { fetchItadDeals, isItadConfigured } from '@/lib/itad';
+
+const MIN_DISCOUNT = 25;
+
+// ITAD shop ID -> the platform name our own fetchers use, so the same game from both
+// sources dedupes and shares per-platform budgets
+const SHOP_PLATFORMS: Record<number, string> = {
+    61: 'Steam',
+    16: 'Epic Games',
+    35: 'GOG'
+};
+
+const ITAD_TYPES: Record<string, ContentType> = {
+    game: 'game',
+    dlc: 'dlc',
+    package: 'bundle'
+};
+
+// IsThereAnyDeal = deals across shops (trending order), with ITAD's all-time low attached
+export const itadProvider: DealProvider = {
+    id: 'itad',
+    platform: 'IsThereAnyDeal',
+    emoji: '🔎',
+    brandColor: '#1f3a5f',
+    // Prices come in the ITAD_COUNTRY currency, which varies per account, so deals without
+    // a currency are skipped rather than given a guessed one
+    defaultCurrency: 'USD',
+
+    isConfigured: isItadConfigured,
+
+    async fetchDeals(): Promise<Deal[]> {
+        const items = await fetchItadDeals();
+
+        return items
+            .filter(item => !item.mature && item.deal.cut >= MIN_DISCOUNT && item.deal.price.currency)
+            .map((item, index): Deal => ({
+                id: `itad_${item.id}_${item.deal.shop.id}`,
+                name: item.title,
+                discount_percent: item.deal.cut,
+                final_price: item.deal.price.amount,
+                original_price: item.deal.regular.amount || undefined,
+                currency: item.deal.price.currency,
+                platform: SHOP_PLATFORMS[item.deal.shop.id] || item.deal.shop.name,
+                popularity: 1 - index / items.length,
+                store_type: item.type ? ITAD_TYPES[item.type] : undefined,
+                external_ids: { itad: item.id },
+                itad_low: item.deal.historyLow
+                    ? { amount: item.deal.historyLow.amount, currency: item.deal.historyLow.currency }
+                    : undefined,
+                url: item.deal.url,
+                header_image: item.assets.banner600 || item.assets.banner400 || item.assets.boxart || null
+            }));
+    }
+};
@@ -0,0 +1,81 @@
+import type { Deal, DealProvider } from '@/lib/deals';
+import { fetchJson } from '@/lib/http';
+import { getAccount } from '@/lib/accounts';
+
+const REVIEW_CACHE_MS = 6 * 60 * 60 * 1000; // Review totals barely move within a day
+
+// Review summary for scoring (num_per_page=0 returns only the totals)
+async function fetchSteamReviews(appId: string): Promise<{ percent: number; count: number } | null> {
+    try {
+        const data = await fetchJson(
+            `https://store.steampowered.com/appreviews/${appId}?json=1&language=all&purchase_type=all&num_per_page=0`,
+            { cacheTtlMs: REVIEW_CACHE_MS }
+        );
+        const summary = data.query_summary;
+        if (!summary?.total_reviews) return null;
+        return {
+            percent: Math.round((summary.total_positive / summary.total_reviews) * 100),
+            count: summary.total_reviews
+        };
+    } catch (e) {
+        console.error(`Steam reviews error (${appId}):`, e);
+        return null;
+    }
+}
+
+export const steamProvider: DealProvider = {
+    id: 'steam',
+    platform: 'Steam',
+    emoji: '♨️',
+    brandColor: '#1b2838',
+    defaultCurrency: 'USD', // Turkey moved to USD pricing; items carry their own currency anyway
+
+    async fetchDeals(): Promise<Deal[]> {
+        const deals: Deal[] = [];
+        const seen = new Set<number>();
+
+        // Prices for the active account's region. Errors reach fetchAllDeals so the run
+        // record shows why Steam came back empty.
+        const data = await fetchJson(`https://store.steampowered.com/api/featuredcategories?cc=${getAccount().region.toLowerCase()}`);
+        const topSellers: any[] = data.top_sellers?.items || [];
+        const allItems = [
+            ...(data.specials?.items || []),
+            ...(data.top_sellers?.items || []),
+            ...(data.new_releases?.items || [])
+        ];
+
+        for (const item of allItems) {
+            if (seen.has(item.id)) continue;
+            seen.add(item.id);
+
+            if (item.discounted && item.discount_percent >= 25) {
+                // Top sellers rank by position, everything else is average
+                const sellerRank = topSellers.findIndex(t => t.id === item.id);
+                deals.push({
+                    id: item.id.toString(),
+                    name: item.name,
+                    discount_percent: item.discount_percent,
+                    final_price: item.final_price / 100,
+                    original_price: item.original_price ? item.original_price / 100 : undefined,
+                    store_type: item.type > 0 ? 'bundle' : 'game', // 0 = app, 1+ = package/bundle
+                    external_ids: item.type > 0 ? undefined : { steam: item.id.toString() },
+                    popularity: sellerRank >= 0 ? 1 - sellerRank / topSellers.length : 0.5,
+                    currency: item.currency || this.defaultCurrency,
+                    platform: this.platform,
+                    url: `https://store.steampowered.com/app/${item.id}`,
+                    header_image: `https://cdn.akamai.steamstatic.com/steam/apps/${item.id}/header.jpg`
+                });
+            }
+        }
+
+        await Promise.all(deals.map(async deal => {
+            const reviews = await fetchSteamReviews(deal.id);
+            if (reviews) {
+                deal.steam_review_percent = reviews.percent;
+                deal.steam_review_count = reviews.count;
+            }
+        }));
+
+        return deals;
+    }
+};
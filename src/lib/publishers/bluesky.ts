@@ -0,0 +1,73 @@
+import { PublishError, requestJson, toBlob, type Publisher } from '@/lib/publishing';
+import { formatTweet } from '@/lib/tweet';
+import { accountEnv, accountSecret } from '@/lib/accounts';
+
+const MAX_BLOB_BYTES = 1_000_000; // Bluesky rejects larger images
+
+const service = () => accountEnv('BLUESKY_SERVICE') || 'https://bsky.social';
+
+// Bluesky doesn't auto-link URLs, each one needs a facet with UTF-8 byte offsets
+const linkFacets = (text: string) =>
+    Array.from(text.matchAll(/https?:\/\/\S+/g)).map(match => {
+        const byteStart = Buffer.byteLength(text.slice(0, match.index));
+        return {
+            index: { byteStart, byteEnd: byteStart + Buffer.byteLength(match[0]) },
+            features: [{ $type: 'app.bsky.richtext.facet#link', uri: match[0] }]
+        };
+    });
+
+export const blueskyPublisher: Publisher = {
+    id: 'bluesky',
+    maxLength: 300,
+
+    isConfigured: () => !!(accountSecret('BLUESKY_IDENTIFIER') && accountSecret('BLUESKY_APP_PASSWORD')),
+
+    format(game, rates, currency) {
+        return formatTweet(game, rates, { maxLength: this.maxLength, currency });
+    },
+
+    async publish(text, image, { alt, replyTo }) {
+        const session = await requestJson(`${service()}/xrpc/com.atproto.server.createSession`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                identifier: accountSecret('BLUESKY_IDENTIFIER'),
+                password: accountSecret('BLUESKY_APP_PASSWORD')
+            })
+        }, 'Bluesky');
+        if (!session?.accessJwt) throw new PublishError('Bluesky: no session token');
+
+        const auth = { Authorization: `Bearer ${session.accessJwt}` };
+        const record: Record<string, unknown> = {
+            $type: 'app.bsky.feed.post',
+            text,
+            facets: linkFacets(text),
+            createdAt: new Date().toISOString()
+        };
+
+        // Replies point at the thread's first post (root) and the post right above (parent)
+        if (replyTo) record.reply = JSON.parse(replyTo);
+
+        // Oversized images are dropped rather than failing the post
+        if (image && image.buffer.length <= MAX_BLOB_BYTES) {
+            const upload = await requestJson(`${service()}/xrpc/com.atproto.repo.uploadBlob`, {
+                method: 'POST',
+                headers: { ...auth, 'Content-Type': image.mimeType },
+                body: toBlob(image)
+            }, 'Bluesky');
+            record.embed = {
+                $type: 'app.bsky.embed.images',
+                images: [{ alt, image: upload.blob }]
+            };
+        }
+
+        const body = await requestJson(`${service()}/xrpc/com.atproto.repo.createRecord`, {
+            method: 'POST',
+            headers: { ...auth, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ repo: session.did, collection: 'app.bsky.feed.post', record })
+        }, 'Bluesky');
+        const ref = { uri: body?.uri, cid: body?.cid };
+        const root = replyTo ? JSON.parse(replyTo).root : ref;
+        return { postId: body?.uri, replyRef: JSON.stringify({ root, parent: ref }) };
+    }
+};
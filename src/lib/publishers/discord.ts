@@ -0,0 +1,29 @@
+import { requestJson, toBlob, type Publisher } from '@/lib/publishing';
+import { formatTweet } from '@/lib/tweet';
+import { accountSecret } from '@/lib/accounts';
+
+export const discordPublisher: Publisher = {
+    id: 'discord',
+    maxLength: 2000,
+
+    isConfigured: () => !!accountSecret('DISCORD_WEBHOOK_URL'),
+
+    // Discord renders markdown, so the name goes in bold
+    format(game, rates, currency) {
+        return formatTweet(game, rates, { maxLength: this.maxLength, currency, formatName: name => `**${name}**` });
+    },
+
+    // Webhooks can't reply, thread parts simply follow each other in the channel
+    async publish(text, image) {
+        const form = new FormData();
+        form.append('payload_json', JSON.stringify({ content: text }));
+        if (image) form.append('files[0]', toBlob(image), 'deal.jpg');
+
+        // wait=true makes Discord return the created message instead of 204
+        const url = new URL(accountSecret('DISCORD_WEBHOOK_URL')!);
+        url.searchParams.set('wait', 'true');
+
+        const body = await requestJson(url.toString(), { method: 'POST', body: form }, 'Discord');
+        return { postId: body?.id };
+    }
+};
@@ -0,0 +1,21 @@
+import type { Publisher } from '@/lib/publishing';
+import { getPublisherConfig } from '@/lib/config';
+import { twitterPublisher } from './twitter';
+import { telegramPublisher } from './telegram';
+import { discordPublisher } from './discord';
+import { blueskyPublisher } from './bluesky';
+import { mastodonPublisher } from './mastodon';
+
+const PUBLISHERS: Publisher[] = [
+    twitterPublisher,
+    telegramPublisher,
+    discordPublisher,
+    blueskyPublisher,
+    mastodonPublisher
+];
+
+// Channels with credentials that aren't switched off in config
+export const getEnabledPublishers = (): Publisher[] => {
+    const { disabled } = getPublisherConfig();
+    return PUBLISHERS.filter(p => p.isConfigured() && !disabled.includes(p.id));
+};
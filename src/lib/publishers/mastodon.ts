@@ -0,0 +1,48 @@
+import { PublishError, requestJson, toBlob, type Publisher } from '@/lib/publishing';
+import { formatTweet } from '@/lib/tweet';
+import { accountSecret } from '@/lib/accounts';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const mastodonPublisher: Publisher = {
+    id: 'mastodon',
+    maxLength: 500,
+
+    isConfigured: () => !!(accountSecret('MASTODON_URL') && accountSecret('MASTODON_ACCESS_TOKEN')),
+
+    format(game, rates, currency) {
+        return formatTweet(game, rates, { maxLength: this.maxLength, currency });
+    },
+
+    async publish(text, image, { alt, replyTo }) {
+        const baseUrl = accountSecret('MASTODON_URL')!.replace(/\/$/, '');
+        const auth = { Authorization: `Bearer ${accountSecret('MASTODON_ACCESS_TOKEN')}` };
+
+        const mediaIds: string[] = [];
+        if (image) {
+            const form = new FormData();
+            form.append('file', toBlob(image), 'deal.jpg');
+            form.append('description', alt);
+            const media = await requestJson(`${baseUrl}/api/v2/media`, {
+                method: 'POST',
+                headers: auth,
+                body: form
+            }, 'Mastodon');
+
+            // Large uploads are processed async (url is null until done)
+            for (let i = 0; !media.url && i < 5; i++) {
+                await delay(1000);
+                Object.assign(media, await requestJson(`${baseUrl}/api/v1/media/${media.id}`, { headers: auth }, 'Mastodon'));
+            }
+            if (!media.url) throw new PublishError('Mastodon: media still processing');
+            mediaIds.push(media.id);
+        }
+
+        const status = await requestJson(`${baseUrl}/api/v1/statuses`, {
+            method: 'POST',
+            headers: { ...auth, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ status: text, media_ids: mediaIds, in_reply_to_id: replyTo })
+        }, 'Mastodon');
+        return { postId: status?.id };
+    }
+};
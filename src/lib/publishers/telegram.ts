@@ -0,0 +1,36 @@
+import { requestJson, toBlob, type Publisher } from '@/lib/publishing';
+import { formatTweet } from '@/lib/tweet';
+import { accountEnv, accountSecret } from '@/lib/accounts';
+
+// TELEGRAM_API_URL can point at a local stand-in
+const apiUrl = () => accountEnv('TELEGRAM_API_URL') || 'https://api.telegram.org';
+
+export const telegramPublisher: Publisher = {
+    id: 'telegram',
+    maxLength: 1024, // Photo caption limit
+
+    isConfigured: () => !!(accountSecret('TELEGRAM_BOT_TOKEN') && accountSecret('TELEGRAM_CHAT_ID')),
+
+    format(game, rates, currency) {
+        return formatTweet(game, rates, { maxLength: this.maxLength, currency });
+    },
+
+    async publish(text, image, { replyTo }) {
+        const form = new FormData();
+        form.append('chat_id', accountSecret('TELEGRAM_CHAT_ID')!);
+        if (replyTo) form.append('reply_to_message_id', replyTo);
+        if (image) {
+            form.append('caption', text);
+            form.append('photo', toBlob(image), 'deal.jpg');
+        } else {
+            form.append('text', text);
+        }
+
+        const method = image ? 'sendPhoto' : 'sendMessage';
+        const body = await requestJson(`${apiUrl()}/bot${accountSecret('TELEGRAM_BOT_TOKEN')}/${method}`, {
+            method: 'POST',
+            body: form
+        }, 'Telegram');
+        return { postId: body?.result?.message_id?.toString() };
+    }
+};
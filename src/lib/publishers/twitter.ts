@@ -0,0 +1,28 @@
+import { getTwitterClient } from '@/lib/twitter';
+import type { Publisher } from '@/lib/publishing';
+import { formatTweet } from '@/lib/tweet';
+import { accountSecret } from '@/lib/accounts';
+
+export const twitterPublisher: Publisher = {
+    id: 'twitter',
+    maxLength: 280,
+
+    isConfigured: () =>
+        !!(accountSecret('TWITTER_APP_KEY') && accountSecret('TWITTER_APP_SECRET') &&
+            accountSecret('TWITTER_ACCESS_TOKEN') && accountSecret('TWITTER_ACCESS_SECRET')),
+
+    format(game, rates, currency) {
+        return formatTweet(game, rates, { maxLength: this.maxLength, currency });
+    },
+
+    async publish(text, image, { replyTo }) {
+        const twitterClient = getTwitterClient();
+        const mediaId = image && await twitterClient.v1.uploadMedia(image.buffer, { mimeType: image.mimeType });
+        const { data } = await twitterClient.v2.tweet({
+            text,
+            ...(mediaId ? { media: { media_ids: [mediaId] } } : {}),
+            ...(replyTo ? { reply: { in_reply_to_tweet_id: replyTo } } : {})
+        });
+        return { postId: data.id };
+    }
+};
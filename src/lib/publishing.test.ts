@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Deal } from '@/lib/deals';
+import type { RateTable } from '@/lib/pricing';
+import { publishThreadToAll, publishToAll, type PostImage, type Thread } from '@/lib/publishing';
+import { telegramPublisher } from '@/lib/publishers/telegram';
+import { discordPublisher } from '@/lib/publishers/discord';
+import { mastodonPublisher } from '@/lib/publishers/mastodon';
+import { blueskyPublisher } from '@/lib/publishers/bluesky';
+import { notFound, startMockServer, type MockResponse, type MockServer, type ReceivedRequest } from '@/test/mock-server';
+
+// Publishers against a local stand-in for each channel's API
+
+const rates: RateTable = { base: 'USD', rates: { USD: 1, TRY: 35 }, source: 'fallback', fetchedAt: null };
+const image: PostImage = { buffer: Buffer.from('fake-jpeg'), mimeType: 'image/jpeg' };
+
+const game: Deal = {
+    id: 'steam-1',
+    name: 'Hollow Knight',
+    discount_percent: 50,
+    final_price: 100,
+    currency: 'TRY',
+    platform: 'Steam',
+    url: 'https://store.steampowered.com/app/367520',
+    header_image: null
+};
+
+const text = (req: ReceivedRequest) => req.body.toString('utf8');
+
+let server: MockServer;
+let respond: (req: ReceivedRequest) => MockResponse;
+
+beforeEach(async () => {
+    respond = notFound;
+    server = await startMockServer(req => respond(req));
+});
+
+afterEach(async () => {
+    vi.unstubAllEnvs();
+    await server.close();
+});
+
+describe('telegram', () => {
+    beforeEach(() => {
+        vi.stubEnv('TELEGRAM_API_URL', server.url);
+        vi.stubEnv('TELEGRAM_BOT_TOKEN', 'token123');
+        vi.stubEnv('TELEGRAM_CHAT_ID', '-100');
+    });
+
+    it('sends a photo with the post as its caption', async () => {
+        respond = () => ({ json: { ok: true, result: { message_id: 42 } } });
+
+        const [result] = await publishToAll([telegramPublisher], game, image, rates);
+
+        expect(result).toEqual({ channel: 'telegram', success: true, postId: '42' });
+        expect(server.requests).toHaveLength(1);
+        expect(server.requests[0].path).toBe('/bottoken123/sendPhoto');
+        expect(text(server.requests[0])).toContain('Hollow Knight');
+        expect(text(server.requests[0])).toContain('-100');
+        expect(text(server.requests[0])).toContain('fake-jpeg');
+    });
+
+    it('reports rate limits without failing the other channels', async () => {
+        vi.stubEnv('DISCORD_WEBHOOK_URL', `${server.url}/api/webhooks/1/abc`);
+        respond = req => req.path.startsWith('/bot')
+            ? { status: 429, json: { ok: false, description: 'Too Many Requests: retry after 30' } }
+            : { json: { id: 'd1' } };
+
+        const results = await publishToAll([telegramPublisher, discordPublisher], game, image, rates);
+
+        expect(results[0]).toMatchObject({ channel: 'telegram', success: false, rateLimited: true });
+        expect(results[0].error).toContain('Telegram 429');
+        expect(results[1]).toEqual({ channel: 'discord', success: true, postId: 'd1' });
+    });
+
+    it('chains thread parts as replies', async () => {
+        let nextId = 1;
+        respond = () => ({ json: { ok: true, result: { message_id: nextId++ } } });
+        const thread: Thread = { images: [image, null], alts: ['a', 'b'], format: () => ['first', 'second'] };
+
+        const [result] = await publishThreadToAll([telegramPublisher], thread);
+
+        expect(result).toEqual({ channel: 'telegram', success: true, postId: '1' });
+        expect(server.requests.map(r => r.path)).toEqual(['/bottoken123/sendPhoto', '/bottoken123/sendMessage']);
+        expect(text(server.requests[0])).not.toContain('reply_to_message_id');
+        expect(text(server.requests[1])).toMatch(/name="reply_to_message_id"\r\n\r\n1\r\n/);
+    });
+});
+
+describe('discord', () => {
+    it('posts to the webhook and waits for the created message', async () => {
+        vi.stubEnv('DISCORD_WEBHOOK_URL', `${server.url}/api/webhooks/1/abc`);
+        respond = () => ({ json: { id: '999' } });
+
+        const [result] = await publishToAll([discordPublisher], game, image, rates);
+
+        expect(result).toEqual({ channel: 'discord', success: true, postId: '999' });
+        expect(server.requests[0].path).toBe('/api/webhooks/1/abc?wait=true');
+        expect(text(server.requests[0])).toContain('**Hollow Knight**');
+    });
+});
+
+describe('mastodon', () => {
+    it('uploads the image with its description, then posts the status', async () => {
+        vi.stubEnv('MASTODON_URL', `${server.url}/`);
+        vi.stubEnv('MASTODON_ACCESS_TOKEN', 'masto');
+        respond = req => req.path === '/api/v2/media'
+            ? { json: { id: 'm1', url: 'https://files.example/m1.jpg' } }
+            : { json: { id: 's1' } };
+
+        const [result] = await publishToAll([mastodonPublisher], game, image, rates);
+
+        expect(result).toEqual({ channel: 'mastodon', success: true, postId: 's1' });
+        expect(server.requests.map(r => r.path)).toEqual(['/api/v2/media', '/api/v1/statuses']);
+        expect(server.requests[0].headers.authorization).toBe('Bearer masto');
+        expect(text(server.requests[0])).toContain('Hollow Knight');
+        expect(JSON.parse(text(server.requests[1]))).toMatchObject({ media_ids: ['m1'] });
+    });
+});
+
+describe('bluesky', () => {
+    beforeEach(() => {
+        vi.stubEnv('BLUESKY_SERVICE', server.url);
+        vi.stubEnv('BLUESKY_IDENTIFIER', 'bot.bsky.social');
+        vi.stubEnv('BLUESKY_APP_PASSWORD', 'app-pass');
+        respond = req => {
+            switch (req.path) {
+                case '/xrpc/com.atproto.server.createSession':
+                    return { json: { accessJwt: 'jwt', did: 'did:plc:bot' } };
+                case '/xrpc/com.atproto.repo.uploadBlob':
+                    return { json: { blob: { ref: 'blob1' } } };
+                case '/xrpc/com.atproto.repo.createRecord':
+                    return { json: { uri: `at://post/${server.requests.length}`, cid: 'cid' } };
+                default:
+                    return notFound();
+            }
+        };
+    });
+
+    it('logs in, uploads the image and links the store URL', async () => {
+        const [result] = await publishToAll([blueskyPublisher], game, image, rates);
+
+        expect(result).toMatchObject({ channel: 'bluesky', success: true });
+        const create = JSON.parse(text(server.requests[2]));
+        expect(create.repo).toBe('did:plc:bot');
+        expect(create.record.embed.images[0]).toEqual({ alt: 'Hollow Knight', image: { ref: 'blob1' } });
+        expect(create.record.facets[0].features[0].uri).toBe(game.url);
+        expect(server.requests[2].headers.authorization).toBe('Bearer jwt');
+    });
+
+    it('replies to the thread root and the previous post', async () => {
+        const thread: Thread = { images: [null, null], alts: ['', ''], format: () => ['first', 'second'] };
+
+        const [result] = await publishThreadToAll([blueskyPublisher], thread);
+
+        expect(result.success).toBe(true);
+        const creates = server.requests.filter(r => r.path.endsWith('createRecord')).map(r => JSON.parse(text(r)));
+        expect(creates[0].record.reply).toBeUndefined();
+        expect(creates[1].record.reply.root.uri).toBe(result.postId);
+        expect(creates[1].record.reply.parent.uri).toBe(result.postId);
+    });
+});
@@ -0,0 +1,155 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Deal } from '@/lib/deals';
+import type { RateTable } from '@/lib/pricing';
+import { getPricingConfig } from '@/lib/config';
+
+// Shared publisher model - every channel (Twitter, Telegram, ...) implements Publisher.
+// Deliveries are logged to post_deliveries (supabase/migrations/0004_post_deliveries.sql).
+
+export interface PostImage {
+    buffer: Buffer;
+    mimeType: string;
+}
+
+// Copy into a plain Uint8Array so fetch/FormData accept it
+export const toBlob = (image: PostImage): Blob =>
+    new Blob([new Uint8Array(image.buffer)], { type: image.mimeType });
+
+export interface PublishOptions {
+    alt: string;          // Image description
+    replyTo?: string;     // replyRef of the previous post when publishing a thread
+}
+
+export interface Publisher {
+    id: string;           // Config key and post_deliveries.channel
+    maxLength: number;    // Characters allowed in the post text
+    isConfigured(): boolean;
+    format(game: Deal, rates: RateTable, currency: string): string;
+    // replyRef is whatever the channel needs to reply to this post (defaults to postId).
+    // Channels without replies post thread parts one after another.
+    publish(text: string, image: PostImage | null, options: PublishOptions): Promise<{ postId?: string; replyRef?: string }>;
+}
+
+export interface DeliveryResult {
+    channel: string;
+    success: boolean;
+    postId?: string;
+    error?: string;
+    rateLimited?: boolean;
+}
+
+// Post text per channel, each in the channel's target currency (used by dry runs)
+export const previewPosts = (publishers: Publisher[], game: Deal, rates: RateTable): Record<string, string> => {
+    const { currencyFor } = getPricingConfig();
+    return Object.fromEntries(publishers.map(p => [p.id, p.format(game, rates, currencyFor(p.id))]));
+};
+
+// Carries the HTTP status so rate limits can be told apart from other failures
+export class PublishError extends Error {
+    constructor(message: string, public status?: number) {
+        super(message);
+        this.name = 'PublishError';
+    }
+}
+
+export const isRateLimitError = (err: any): boolean =>
+    err?.status === 429 || err?.code === 429 ||
+    !!err?.message?.includes('429') || !!err?.message?.includes('Too Many');
+
+// Throw a PublishError for non-2xx responses, otherwise return the parsed JSON body
+export async function requestJson(url: string, init: RequestInit, channel: string): Promise<any> {
+    const res = await fetch(url, init);
+    const body = await res.json().catch(() => null);
+    if (!res.ok) {
+        const detail = body?.description || body?.message || body?.error || res.statusText;
+        throw new PublishError(`${channel} ${res.status}: ${detail}`, res.status);
+    }
+    return body;
+}
+
+// Publish to every channel in parallel - one channel failing never blocks the others
+export async function publishToAll(
+    publishers: Publisher[],
+    game: Deal,
+    image: PostImage,
+    rates: RateTable
+): Promise<DeliveryResult[]> {
+    const { currencyFor } = getPricingConfig();
+    return Promise.all(publishers.map(async publisher => {
+        try {
+            const text = publisher.format(game, rates, currencyFor(publisher.id));
+            const { postId } = await publisher.publish(text, image, { alt: game.name });
+            return { channel: publisher.id, success: true, postId };
+        } catch (err: any) {
+            return {
+                channel: publisher.id,
+                success: false,
+                error: err.message || String(err.code || 'unknown'),
+                rateLimited: isRateLimitError(err)
+            };
+        }
+    }));
+}
+
+// A multi-post format (thread or digest). Text is built per channel because length limits
+// and currencies differ, so the number of parts can differ too; part i gets images[i].
+export interface Thread {
+    images: (PostImage | null)[];
+    alts: string[];
+    format(publisher: Publisher, currency: string): string[];
+}
+
+// Texts per channel without publishing (used by dry runs)
+export const previewThread = (publishers: Publisher[], thread: Thread): Record<string, string[]> => {
+    const { currencyFor } = getPricingConfig();
+    return Object.fromEntries(publishers.map(p => [p.id, thread.format(p, currencyFor(p.id))]));
+};
+
+// Channels run in parallel, parts in order. A channel only counts as delivered when its
+// whole thread went out; postId is the first post.
+export async function publishThreadToAll(publishers: Publisher[], thread: Thread): Promise<DeliveryResult[]> {
+    const { currencyFor } = getPricingConfig();
+    return Promise.all(publishers.map(async publisher => {
+        const texts = thread.format(publisher, currencyFor(publisher.id));
+        let firstPostId: string | undefined;
+        let replyTo: string | undefined;
+
+        for (let i = 0; i < texts.length; i++) {
+            try {
+                const { postId, replyRef } = await publisher.publish(texts[i], thread.images[i] || null, {
+                    alt: thread.alts[i] || '',
+                    replyTo
+                });
+                firstPostId ??= postId;
+                replyTo = replyRef || postId;
+            } catch (err: any) {
+                return {
+                    channel: publisher.id,
+                    success: false,
+                    postId: firstPostId,
+                    error: `part ${i + 1}/${texts.length}: ${err.message || String(err.code || 'unknown')}`,
+                    rateLimited: isRateLimitError(err)
+                };
+            }
+        }
+        return { channel: publisher.id, success: true, postId: firstPostId };
+    }));
+}
+
+export async function recordDeliveries(
+    supabaseAdmin: SupabaseClient,
+    game: Deal,
+    postedGameId: number | null,
+    results: DeliveryResult[]
+): Promise<{ error?: string }> {
+    const { error } = await supabaseAdmin.from('post_deliveries').insert(results.map(r => ({
+        posted_game_id: postedGameId,
+        game_id: game.canonical_id || null,
+        game_title: game.name,
+        channel: r.channel,
+        success: r.success,
+        post_id: r.postId || null,
+        error: r.error || null
+    })));
+    return { error: error?.message };
+}
@@ -0,0 +1,16 @@
+import type { Storage } from '@/lib/repository';
+import { getStorageConfig } from '@/lib/config';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { createMemoryStorage } from './memory';
+import { createSupabaseStorage } from './supabase';
+
+let memoryStorage: Storage | null = null;
+
+// The configured backend. The in-memory one is shared by the whole process.
+export const getStorage = (): Storage => {
+    if (getStorageConfig().backend === 'memory') {
+        memoryStorage ??= createMemoryStorage();
+        return memoryStorage;
+    }
+    return createSupabaseStorage(getSupabaseAdmin());
+};
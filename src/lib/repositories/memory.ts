@@ -0,0 +1,42 @@
+import type { PostedGameRow, PostMetricsRow, Storage } from '@/lib/repository';
+
+// Rows live in this process only: local runs without a Supabase project. A dev server keeps
+// them between requests, so repeated cron calls still see what they "posted".
+export const createMemoryStorage = (): Storage => {
+    const postedGames: PostedGameRow[] = [];
+    const postMetrics = new Map<number, PostMetricsRow>();
+    const newestFirst = (a: PostedGameRow, b: PostedGameRow) => Date.parse(b.created_at) - Date.parse(a.created_at);
+
+    return {
+        postedGames: {
+            async listSince(account, since) {
+                const posts = postedGames
+                    .filter(p => p.account === account && Date.parse(p.created_at) > Date.parse(since))
+                    .sort(newestFirst);
+                return { posts };
+            },
+
+            async listLatest(account, limit, offset = 0) {
+                const posts = postedGames.filter(p => p.account === account).sort(newestFirst);
+                return { posts: posts.slice(offset, offset + limit) };
+            },
+
+            async insert(post) {
+                const id = postedGames.length + 1;
+                postedGames.push({ ...post, id, created_at: new Date().toISOString() });
+                return { id };
+            }
+        },
+
+        postMetrics: {
+            async upsert(rows) {
+                for (const row of rows) postMetrics.set(row.posted_game_id, row);
+                return {};
+            },
+
+            async listFor(postedGameIds) {
+                return { metrics: postedGameIds.flatMap(id => postMetrics.get(id) || []) };
+            }
+        }
+    };
+};
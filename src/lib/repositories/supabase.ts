@@ -0,0 +1,50 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Storage } from '@/lib/repository';
+
+const POSTED_COLUMNS = 'id, account, app_id, game_id, game_title, platform, price_usd, discount_percent, tweet_id, format, created_at';
+
+export const createSupabaseStorage = (supabaseAdmin: SupabaseClient): Storage => ({
+    postedGames: {
+        async listSince(account, since) {
+            const { data, error } = await supabaseAdmin
+                .from('posted_games')
+                .select(POSTED_COLUMNS)
+                .eq('account', account)
+                .gt('created_at', since)
+                .order('created_at', { ascending: false });
+            return { posts: data || [], error: error?.message };
+        },
+
+        async listLatest(account, limit, offset = 0) {
+            const { data, error } = await supabaseAdmin
+                .from('posted_games')
+                .select(POSTED_COLUMNS)
+                .eq('account', account)
+                .order('created_at', { ascending: false })
+                .range(offset, offset + limit - 1);
+            return { posts: data || [], error: error?.message };
+        },
+
+        async insert(post) {
+            const { data, error } = await supabaseAdmin.from('posted_games').insert(post).select('id').single();
+            return { id: data?.id, error: error?.message };
+        }
+    },
+
+    postMetrics: {
+        async upsert(rows) {
+            if (rows.length === 0) return {};
+            const { error } = await supabaseAdmin.from('post_metrics').upsert(rows, { onConflict: 'posted_game_id' });
+            return { error: error?.message };
+        },
+
+        async listFor(postedGameIds) {
+            if (postedGameIds.length === 0) return { metrics: [] };
+            const { data, error } = await supabaseAdmin
+                .from('post_metrics')
+                .select('*')
+                .in('posted_game_id', postedGameIds);
+            return { metrics: data || [], error: error?.message };
+        }
+    }
+});
@@ -0,0 +1,54 @@
+import type { PostMode } from '@/lib/formats';
+
+// Storage for the bot's own tables, independent of where they live. Implementations are in
+// src/lib/repositories (Supabase, in-memory) and STORAGE_BACKEND picks one. The schema is
+// versioned in supabase/migrations.
+//
+// posted_games and post_metrics are behind repositories; the other tables still take a
+// SupabaseClient and move over the same way (a *Repository interface here, one implementation
+// per backend).
+
+export interface PostedGameRow {
+    id: number;
+    account: string;
+    app_id: number;
+    game_id: string | null;
+    game_title: string;
+    platform: string | null;
+    price_usd: number;
+    discount_percent: number | null;
+    tweet_id: string | null;        // Single posts only, for engagement metrics
+    format: PostMode;               // Deals from threads and digests don't count toward the schedule budgets
+    created_at: string;
+}
+
+export type NewPostedGame = Omit<PostedGameRow, 'id' | 'created_at'>;
+
+export interface PostedGamesRepository {
+    // Newest first
+    listSince(account: string, since: string): Promise<{ posts: PostedGameRow[]; error?: string }>;
+    listLatest(account: string, limit: number, offset?: number): Promise<{ posts: PostedGameRow[]; error?: string }>;
+    insert(post: NewPostedGame): Promise<{ id?: number; error?: string }>;
+}
+
+export interface PostMetricsRow {
+    posted_game_id: number;
+    likes: number;
+    reposts: number;
+    replies: number;
+    quotes: number;
+    impressions: number | null;
+    link_clicks: number | null;
+    collected_at: string;
+}
+
+export interface PostMetricsRepository {
+    // One row per posted game; newer collections replace older ones
+    upsert(rows: PostMetricsRow[]): Promise<{ error?: string }>;
+    listFor(postedGameIds: number[]): Promise<{ metrics: PostMetricsRow[]; error?: string }>;
+}
+
+export interface Storage {
+    postedGames: PostedGamesRepository;
+    postMetrics: PostMetricsRepository;
+}
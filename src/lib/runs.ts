@@ -0,0 +1,189 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ProviderResult } from '@/lib/providers';
+import type { Candidate } from '@/lib/pipeline';
+import type { DeliveryResult } from '@/lib/publishing';
+import type { PostMode } from '@/lib/formats';
+import { getHealthConfig } from '@/lib/config';
+import { getAccount } from '@/lib/accounts';
+
+// One row per cron run, so a quiet store API or a failing channel shows up in /api/runs
+// instead of disappearing with the workflow log.
+// Table: supabase/migrations/0009_cron_runs.sql, 0010_accounts.sql
+
+export type RunStatus = 'posted' | 'nothing_new' | 'skipped' | 'rate_limited' | 'failed';
+
+export interface ProviderStat {
+    id: string;
+    platform: string;
+    deals: number;
+    durationMs: number;
+    error: string | null;
+}
+
+// Filled in by the cron handler as the run goes
+export interface RunRecord {
+    startedAt: Date;
+    mode: PostMode;
+    providers: ProviderStat[];
+    candidates: Candidate[];
+    posted: { game: string; platform: string; channels: string[] }[];
+    deliveries: DeliveryResult[];
+    announcements: number;
+    alerts: number;
+}
+
+export interface CronRun {
+    id: number;
+    started_at: string;
+    account: string;
+    mode: PostMode;
+    duration_ms: number;
+    status: RunStatus;
+    reason: string | null;
+    providers: ProviderStat[];
+    candidate_count: number;
+    skip_reasons: Record<string, number>;
+    posted: RunRecord['posted'];
+    deliveries: DeliveryResult[];
+    announcements: number;
+    alerts: number;
+}
+
+export const startRun = (): RunRecord => ({
+    startedAt: new Date(),
+    mode: 'single',
+    providers: [],
+    candidates: [],
+    posted: [],
+    deliveries: [],
+    announcements: 0,
+    alerts: 0
+});
+
+export const toProviderStats = (results: ProviderResult[]): ProviderStat[] =>
+    results.map(r => ({
+        id: r.provider.id,
+        platform: r.provider.platform,
+        deals: r.deals.length,
+        durationMs: r.durationMs,
+        error: r.error || null
+    }));
+
+export const countSkipReasons = (candidates: Candidate[]): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    for (const c of candidates) {
+        if (c.reason) counts[c.reason] = (counts[c.reason] || 0) + 1;
+    }
+    return counts;
+};
+
+export async function saveRun(
+    supabaseAdmin: SupabaseClient,
+    run: RunRecord,
+    status: RunStatus,
+    reason?: string
+): Promise<{ error?: string }> {
+    const { error } = await supabaseAdmin.from('cron_runs').insert({
+        started_at: run.startedAt.toISOString(),
+        account: getAccount().id,
+        mode: run.mode,
+        duration_ms: Date.now() - run.startedAt.getTime(),
+        status,
+        reason: reason || null,
+        providers: run.providers,
+        candidate_count: run.candidates.length,
+        skip_reasons: countSkipReasons(run.candidates),
+        posted: run.posted,
+        deliveries: run.deliveries,
+        announcements: run.announcements,
+        alerts: run.alerts
+    });
+    return { error: error?.message };
+}
+
+// Newest first, for one account
+export async function listRuns(
+    supabaseAdmin: SupabaseClient,
+    limit: number,
+    account: string
+): Promise<{ runs: CronRun[]; error?: string }> {
+    const { data, error } = await supabaseAdmin
+        .from('cron_runs')
+        .select('*')
+        .eq('account', account)
+        .order('started_at', { ascending: false })
+        .limit(limit);
+    return { runs: data || [], error: error?.message };
+}
+
+export interface ProviderHealth {
+    id: string;
+    platform: string;
+    emptyStreak: number;           // Latest consecutive runs with no deals (errors included)
+    lastError: string | null;
+    avgDurationMs: number | null;
+}
+
+export interface HealthSummary {
+    status: 'ok' | 'degraded';
+    issues: string[];              // Human-readable, e.g. "Steam returned 0 deals for 6 consecutive runs"
+    lastPostAt: string | null;
+    providers: ProviderHealth[];
+}
+
+// How many of the latest runs (newest first) in a row match
+const streak = <T>(items: T[], matches: (item: T) => boolean): number => {
+    const first = items.findIndex(item => !matches(item));
+    return first === -1 ? items.length : first;
+};
+
+export const summarizeHealth = (runs: CronRun[], threshold = getHealthConfig().emptyRunThreshold): HealthSummary => {
+    const issues: string[] = [];
+
+    const providerIds = Array.from(new Set(runs.flatMap(r => r.providers.map(p => p.id))));
+    const providers = providerIds.map(id => {
+        const stats = runs
+            .map(r => r.providers.find(p => p.id === id))
+            .filter((p): p is ProviderStat => !!p);
+        const durations = stats.map(p => p.durationMs);
+
+        return {
+            id,
+            platform: stats[0].platform,
+            emptyStreak: streak(stats, p => p.deals === 0),
+            lastError: stats.find(p => p.error)?.error || null,
+            avgDurationMs: durations.length > 0
+                ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length)
+                : null
+        };
+    });
+
+    for (const p of providers) {
+        if (p.emptyStreak >= threshold) {
+            issues.push(`${p.platform} returned 0 deals for ${p.emptyStreak} consecutive runs` +
+                (p.lastError ? ` (last error: ${p.lastError})` : ''));
+        }
+    }
+
+    const failedStreak = streak(runs, r => r.status === 'failed');
+    if (failedStreak >= threshold) {
+        issues.push(`Last ${failedStreak} runs failed (latest: ${runs[0].reason || 'unknown error'})`);
+    }
+
+    // Per channel, consecutive failed deliveries across runs
+    const channels = Array.from(new Set(runs.flatMap(r => r.deliveries.map(d => d.channel))));
+    for (const channel of channels) {
+        const attempts = runs.flatMap(r => r.deliveries.filter(d => d.channel === channel));
+        const failed = streak(attempts, d => !d.success);
+        if (failed >= threshold) {
+            issues.push(`${channel} failed its last ${failed} posts (${attempts[0].error || 'unknown error'})`);
+        }
+    }
+
+    return {
+        status: issues.length > 0 ? 'degraded' : 'ok',
+        issues,
+        lastPostAt: runs.find(r => r.status === 'posted')?.started_at || null,
+        providers
+    };
+};
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { planRun } from '@/lib/schedule';
+
+// 15:00 in Istanbul, outside the default quiet hours
+const now = new Date('2026-06-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+
+const policy = (value: object) => vi.stubEnv('SCHEDULE_POLICY', JSON.stringify(value));
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe('planRun', () => {
+    it('waits out the gap since the last post of an earlier run', () => {
+        policy({ minGapMinutes: 45 });
+        expect(planRun([{ platform: 'Steam', created_at: minutesAgo(20) }], now)).toMatchObject({ allowed: 0 });
+        expect(planRun([{ platform: 'Steam', created_at: minutesAgo(50) }], now)).toMatchObject({ allowed: 1 });
+    });
+
+    it('posts one deal per run while a gap is configured, whatever maxPostsPerRun says', () => {
+        policy({ maxPostsPerRun: 3, minGapMinutes: 45 });
+        const plan = planRun([], now);
+        expect(plan.allowed).toBe(1);
+        expect(plan.reason).toContain('min gap 45 min');
+    });
+
+    it('lets an event that raises maxPostsPerRun post several deals in one run', () => {
+        policy({
+            minGapMinutes: 45,
+            events: [{
+                name: 'Summer Sale',
+                start: '2026-05-30T00:00:00Z',
+                end: '2026-06-10T00:00:00Z',
+                maxPostsPerRun: 3
+            }]
+        });
+        expect(planRun([{ platform: 'Steam', created_at: minutesAgo(5) }], now))
+            .toMatchObject({ allowed: 3, event: 'Summer Sale' });
+    });
+
+    it('keeps a gap the event sets itself, and says why it posts one deal', () => {
+        policy({
+            events: [{ name: 'Summer Sale', start: '2026-05-30T00:00:00Z', end: '2026-06-10T00:00:00Z', maxPostsPerRun: 3, minGapMinutes: 30 }]
+        });
+        const plan = planRun([], now);
+        expect(plan).toMatchObject({ allowed: 1, event: 'Summer Sale' });
+        expect(plan.reason).toContain('min gap 30 min');
+    });
+
+    it('never goes over the daily budget', () => {
+        policy({ maxPostsPerRun: 3, minGapMinutes: 0, dailyBudget: 4 });
+        const posts = [1, 2, 3].map(i => ({ platform: 'GOG', created_at: minutesAgo(i * 60) }));
+        expect(planRun(posts, now).allowed).toBe(1);
+    });
+
+    it('leaves threads and digests out of the budgets and the gap', () => {
+        policy({ minGapMinutes: 45, dailyBudget: 2, platformBudgets: { Steam: 1 } });
+        const digest = [1, 2, 3].map(i => ({ platform: 'Steam', format: 'weekly' as const, created_at: minutesAgo(i) }));
+        expect(planRun(digest, now)).toMatchObject({ allowed: 1, platformRemaining: { Steam: 1 } });
+    });
+
+    it('posts nothing during quiet hours', () => {
+        policy({ quietHours: { start: 14, end: 16 } });
+        const plan = planRun([], now);
+        expect(plan.allowed).toBe(0);
+        expect(plan.reason).toContain('quiet hours');
+    });
+});
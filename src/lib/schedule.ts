@@ -0,0 +1,111 @@
+import { getSchedulePolicy, type SchedulePolicy } from '@/lib/config';
+import { getAccount } from '@/lib/accounts';
+import type { PostMode } from '@/lib/formats';
+
+// Decides how many deals a cron run may publish. Runs can be frequent; the policy,
+// not the workflow schedule, controls how much actually gets posted.
+//
+// Per-platform budgets need the platform of each post (posted_games.platform).
+// Threads and digests run on their own schedule, so their deals (posted_games.format other
+// than "single") count toward none of the budgets or the gap.
+
+// Quiet hours and the daily budget follow the active account's time zone
+// (Europe/Istanbul for the default account, UTC+3 all year since 2016)
+
+export interface PostRecord {
+    platform: string | null;
+    format?: PostMode;          // Missing = single
+    created_at: string;
+}
+
+export interface RunPlan {
+    allowed: number;            // Deals this run may publish
+    reason: string;             // Human-readable explanation for the logs
+    event?: string;             // Active sale event, if any
+    quiet: boolean;             // Inside quiet hours - nothing at all should be posted
+    platformRemaining: Record<string, number>;
+}
+
+// UTC offset of a time zone at `now`, DST included
+const zoneOffsetMs = (now: Date, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23',
+        year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+    }).formatToParts(now);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return local - (now.getTime() - now.getMilliseconds());
+};
+
+export const localHour = (now: Date, timeZone = getAccount().timeZone): number =>
+    new Date(now.getTime() + zoneOffsetMs(now, timeZone)).getUTCHours();
+
+// Local midnight, as a UTC instant
+export const localDayStart = (now: Date, timeZone = getAccount().timeZone): Date => {
+    const offset = zoneOffsetMs(now, timeZone);
+    const local = new Date(now.getTime() + offset);
+    local.setUTCHours(0, 0, 0, 0);
+    return new Date(local.getTime() - offset);
+};
+
+const isQuietHour = (hour: number, quiet: SchedulePolicy['quietHours']): boolean => {
+    if (!quiet || quiet.start === quiet.end) return false;
+    // Windows may wrap midnight, e.g. 23 -> 7
+    return quiet.start < quiet.end
+        ? hour >= quiet.start && hour < quiet.end
+        : hour >= quiet.start || hour < quiet.end;
+};
+
+// Base policy with the first active event's overrides applied. An event that raises
+// maxPostsPerRun is a burst, so it drops the gap unless it sets one.
+export const getActivePolicy = (now: Date, policy = getSchedulePolicy()): { policy: SchedulePolicy; event?: string } => {
+    const event = policy.events.find(e => Date.parse(e.start) <= now.getTime() && now.getTime() < Date.parse(e.end));
+    if (!event) return { policy };
+
+    return {
+        policy: {
+            ...policy,
+            maxPostsPerRun: event.maxPostsPerRun ?? policy.maxPostsPerRun,
+            dailyBudget: event.dailyBudget ?? policy.dailyBudget,
+            minGapMinutes: event.minGapMinutes ?? ((event.maxPostsPerRun ?? 1) > 1 ? 0 : policy.minGapMinutes),
+            platformBudgets: { ...policy.platformBudgets, ...event.platformBudgets }
+        },
+        event: event.name
+    };
+};
+
+export const planRun = (postHistory: PostRecord[], now = new Date()): RunPlan => {
+    const { policy, event } = getActivePolicy(now);
+    const dayStart = localDayStart(now).getTime();
+    const recentPosts = postHistory.filter(p => (p.format ?? 'single') === 'single');
+    const todaysPosts = recentPosts.filter(p => Date.parse(p.created_at) >= dayStart);
+
+    const platformRemaining: Record<string, number> = {};
+    for (const [platform, budget] of Object.entries(policy.platformBudgets)) {
+        platformRemaining[platform] = Math.max(0, budget - todaysPosts.filter(p => p.platform === platform).length);
+    }
+
+    const quiet = isQuietHour(localHour(now), policy.quietHours);
+    const plan = (allowed: number, reason: string): RunPlan => ({ allowed, reason, event, quiet, platformRemaining });
+
+    if (quiet) {
+        return plan(0, `quiet hours (${policy.quietHours!.start}:00-${policy.quietHours!.end}:00 ${getAccount().region})`);
+    }
+
+    const lastPost = Math.max(0, ...recentPosts.map(p => Date.parse(p.created_at)));
+    const minutesSinceLast = (now.getTime() - lastPost) / (60 * 1000);
+    if (minutesSinceLast < policy.minGapMinutes) {
+        return plan(0, `last post ${Math.round(minutesSinceLast)} min ago (min gap ${policy.minGapMinutes} min)`);
+    }
+
+    const dailyRemaining = policy.dailyBudget - todaysPosts.length;
+    if (dailyRemaining <= 0) {
+        return plan(0, `daily budget used (${todaysPosts.length}/${policy.dailyBudget})`);
+    }
+
+    // A run can't wait out the gap between its own posts, so with a gap it posts one deal
+    const perRun = policy.minGapMinutes > 0 ? 1 : policy.maxPostsPerRun;
+    const allowed = Math.min(perRun, dailyRemaining);
+    const gapNote = perRun < policy.maxPostsPerRun ? ` (min gap ${policy.minGapMinutes} min)` : '';
+    return plan(allowed, `${todaysPosts.length}/${policy.dailyBudget} posted today, up to ${allowed} this run${gapNote}`);
+};
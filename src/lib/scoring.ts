@@ -0,0 +1,108 @@
+import type { Deal } from '@/lib/deals';
+import { getScoringConfig, type ScoringWeights } from '@/lib/config';
+import { convert, type RateTable } from '@/lib/pricing';
+import { expectedLift, type EngagementModel } from '@/lib/engagement';
+
+// Each component is normalized to 0-1 and multiplied by its weight.
+// Missing data scores a neutral 0.5 so stores that don't expose a signal aren't punished for it.
+export type ScoreBreakdown = Record<keyof ScoringWeights, number> & { total: number };
+
+export interface ScoringContext {
+    rates: RateTable;
+    lastPostedAt?: Date;  // Most recent post of this game, if any
+    now?: Date;
+    engagement?: EngagementModel;  // Learned from past posts (src/lib/engagement.ts)
+}
+
+export interface ScoredDeal {
+    deal: Deal;
+    score: ScoreBreakdown;
+}
+
+const NEUTRAL = 0.5;
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const savingsComponent = (deal: Deal, rates: RateTable, capTL: number): number => {
+    if (deal.final_price === 0 && !deal.original_price) return 1; // Free game, full savings
+    if (!deal.original_price) return NEUTRAL;
+
+    const savings = convert({ amount: deal.original_price - deal.final_price, currency: deal.currency }, 'TRY', rates);
+    return clamp(savings.amount / capTL);
+};
+
+// 50 or below is treated as 0, 100 as 1
+const metacriticComponent = (deal: Deal): number =>
+    deal.metacritic ? clamp((deal.metacritic - 50) / 50) : NEUTRAL;
+
+// Log scale: 10k+ reviews is the ceiling
+const gogReviewsComponent = (deal: Deal): number =>
+    deal.reviews_count === undefined ? NEUTRAL : clamp(Math.log10(deal.reviews_count + 1) / 4);
+
+// Positive ratio, trusted less when there are only a handful of reviews
+const steamReviewsComponent = (deal: Deal): number => {
+    if (deal.steam_review_percent === undefined || !deal.steam_review_count) return NEUTRAL;
+    const confidence = clamp(Math.log10(deal.steam_review_count + 1) / 4);
+    return clamp((deal.steam_review_percent / 100) * confidence);
+};
+
+// 1 = never posted (or long ago), 0 = posted just now
+const recencyComponent = (context: ScoringContext, recencyDays: number): number => {
+    if (!context.lastPostedAt) return 1;
+    const now = context.now || new Date();
+    const daysAgo = (now.getTime() - context.lastPostedAt.getTime()) / (24 * 60 * 60 * 1000);
+    return clamp(daysAgo / recencyDays);
+};
+
+// 1 = all-time low, 0.75 = 90-day low, 0 = pricier than it has been
+const historicalLowComponent = (deal: Deal): number => {
+    if (!deal.price_stats) return NEUTRAL;
+    if (deal.price_stats.is_historical_low) return 1;
+    if (deal.price_stats.is_90d_low) return 0.75;
+    return 0;
+};
+
+// Average lift of the deal's traits: 1.5x a typical post or better is 1, half or worse is 0
+const engagementComponent = (deal: Deal, context: ScoringContext): number => {
+    if (!context.engagement) return NEUTRAL;
+    const lift = expectedLift(deal, context.engagement, context.rates);
+    return lift === undefined ? NEUTRAL : clamp(0.5 + (lift - 1));
+};
+
+export const scoreDeal = (deal: Deal, context: ScoringContext): ScoreBreakdown => {
+    const { weights, savingsCapTL, recencyDays } = getScoringConfig();
+
+    const components: Record<keyof ScoringWeights, number> = {
+        discount: clamp(deal.discount_percent / 100),
+        savings: savingsComponent(deal, context.rates, savingsCapTL),
+        metacritic: metacriticComponent(deal),
+        gogReviews: gogReviewsComponent(deal),
+        steamReviews: steamReviewsComponent(deal),
+        popularity: deal.popularity === undefined ? NEUTRAL : clamp(deal.popularity),
+        recency: recencyComponent(context, recencyDays),
+        historicalLow: historicalLowComponent(deal),
+        engagement: engagementComponent(deal, context)
+    };
+
+    const breakdown = { total: 0 } as ScoreBreakdown;
+    for (const key of Object.keys(components) as (keyof ScoringWeights)[]) {
+        const points = Math.round(components[key] * weights[key] * 10) / 10;
+        breakdown[key] = points;
+        breakdown.total += points;
+    }
+    breakdown.total = Math.round(breakdown.total * 10) / 10;
+
+    return breakdown;
+};
+
+// Highest score first, discount breaks ties
+export const rankDeals = (
+    deals: Deal[],
+    getContext: (deal: Deal) => ScoringContext
+): ScoredDeal[] =>
+    deals
+        .map(deal => ({ deal, score: scoreDeal(deal, getContext(deal)) }))
+        .sort((a, b) => b.score.total - a.score.total || b.deal.discount_percent - a.deal.discount_percent);
+
+export const formatScore = (score: ScoreBreakdown): string =>
+    `${score.total} (disc ${score.discount}, save ${score.savings}, mc ${score.metacritic}, ` +
+    `gog ${score.gogReviews}, steam ${score.steamReviews}, pop ${score.popularity}, fresh ${score.recency}, low ${score.historicalLow}, eng ${score.engagement})`;
@@ -1,4 +1,5 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { getStorageConfig } from '@/lib/config';
 
 export const getSupabaseAdmin = () => {
     if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
@@ -16,3 +17,8 @@ export const getSupabaseAdmin = () => {
         }
     );
 };
+
+// For code that also runs on STORAGE_BACKEND=memory, which needs no Supabase credentials.
+// Callers skip their Supabase-only steps when this is undefined.
+export const getOptionalSupabaseAdmin = (): SupabaseClient | undefined =>
+    getStorageConfig().backend === 'memory' ? undefined : getSupabaseAdmin();
@@ -0,0 +1,82 @@
+import type { Deal } from '@/lib/deals';
+import { getProviderByPlatform } from '@/lib/providers';
+import { getPricingConfig } from '@/lib/config';
+import { convert, formatMoney, originalPrice, salePrice, type RateTable } from '@/lib/pricing';
+import { formatPostDate, getMessages } from '@/lib/i18n';
+
+// Sale price in the target currency, optionally with the original price next to it
+export const formatPrice = (game: Deal, rates: RateTable, currency = getPricingConfig().targetCurrency): string => {
+    const m = getMessages();
+    if (game.final_price === 0) return `🆓 ${m.free}`;
+
+    const converted = game.currency !== currency;
+    const sale = formatMoney(convert(salePrice(game), currency, rates), converted);
+
+    const original = originalPrice(game);
+    if (!getPricingConfig().showOriginalPrice || !original || original.amount <= game.final_price) return sale;
+
+    return `${sale} ${m.insteadOf(formatMoney(convert(original, currency, rates), converted))}`;
+};
+
+export interface TweetOptions {
+    maxLength?: number;
+    currency?: string;
+    formatName?: (name: string) => string;
+}
+
+// Free-game windows are announced in the account's time zone, e.g. "24 Ekim Perşembe 18:00"
+const windowDate = (iso: string): string =>
+    formatPostDate(iso, { day: 'numeric', month: 'long', weekday: 'long', hour: '2-digit', minute: '2-digit' });
+
+// Templates for the three free-game announcements: coming up, free now, last day
+const formatFreeWindow = (game: Deal, window: NonNullable<Deal['free_window']>, name: string): string => {
+    const platformEmoji = getProviderByPlatform(game.platform)?.emoji || '🎮';
+    const m = getMessages();
+
+    switch (window.phase) {
+        case 'upcoming':
+            return `🔜 ${m.upcomingFree(formatPostDate(window.starts_at, { weekday: 'long' }), game.platform)}
+
+🎁 ${name}
+📅 ${windowDate(window.starts_at)} - ${windowDate(window.ends_at)}
+🔗 ${game.url}`;
+        case 'live':
+            return `🆓 ${m.freeNow(name)}
+
+⏰ ${m.freeUntil(windowDate(window.ends_at))}
+${platformEmoji} ${game.platform}
+🔗 ${game.url}`;
+        case 'ending':
+            return `⏳ ${m.lastDay(name)}
+
+⏰ ${m.endsAt(windowDate(window.ends_at))}
+${platformEmoji} ${game.platform}
+🔗 ${game.url}`;
+    }
+};
+
+// maxLength is in characters; long names are cut first so price and link always fit
+export const formatTweet = (game: Deal, rates: RateTable, options: TweetOptions = {}): string => {
+    const { maxLength = 280, currency, formatName = (name: string) => name } = options;
+    const priceStr = formatPrice(game, rates, currency);
+    const platformEmoji = getProviderByPlatform(game.platform)?.emoji || '🎮';
+    const metaStr = game.metacritic && game.metacritic > 0 ? `⭐ Metacritic: ${game.metacritic}\n` : '';
+    const m = getMessages();
+    const lowStr = game.price_stats?.is_historical_low && game.final_price > 0 ? `🏆 ${m.historicalLow}\n` : '';
+
+    const build = (name: string) => (game.free_window
+        ? formatFreeWindow(game, game.free_window, formatName(name))
+        : `🔥 ${formatName(name)}
+
+📉 ${m.discount(game.discount_percent)}
+🏷️ ${priceStr}
+${lowStr}${platformEmoji} ${game.platform}
+${metaStr}🔗 ${game.url}`).trim();
+
+    const text = build(game.name);
+    const overflow = Array.from(text).length - maxLength;
+    if (overflow <= 0) return text;
+
+    const chars = Array.from(game.name);
+    return build(chars.slice(0, Math.max(1, chars.length - overflow - 1)).join('').trimEnd() + '…');
+};
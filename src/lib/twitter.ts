@@ -1,17 +1,21 @@
 import { TwitterApi } from 'twitter-api-v2';
+import { accountSecret } from '@/lib/accounts';
 
+// Credentials of the active account (TWITTER_APP_KEY, or US_TWITTER_APP_KEY for "us")
 export const getTwitterClient = () => {
-    if (!process.env.TWITTER_APP_KEY ||
-        !process.env.TWITTER_APP_SECRET ||
-        !process.env.TWITTER_ACCESS_TOKEN ||
-        !process.env.TWITTER_ACCESS_SECRET) {
+    const appKey = accountSecret('TWITTER_APP_KEY');
+    const appSecret = accountSecret('TWITTER_APP_SECRET');
+    const accessToken = accountSecret('TWITTER_ACCESS_TOKEN');
+    const accessSecret = accountSecret('TWITTER_ACCESS_SECRET');
+
+    if (!appKey || !appSecret || !accessToken || !accessSecret) {
         throw new Error('Missing Twitter credentials');
     }
 
     return new TwitterApi({
-        appKey: process.env.TWITTER_APP_KEY,
-        appSecret: process.env.TWITTER_APP_SECRET,
-        accessToken: process.env.TWITTER_ACCESS_TOKEN,
-        accessSecret: process.env.TWITTER_ACCESS_SECRET,
+        appKey,
+        appSecret,
+        accessToken,
+        accessSecret,
     });
 };
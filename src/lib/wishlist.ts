@@ -0,0 +1,278 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Deal } from '@/lib/deals';
+import { getIdentity, matchesPost } from '@/lib/identity';
+import { convert, formatMoney, salePrice, type RateTable } from '@/lib/pricing';
+import { getProviderByPlatform } from '@/lib/providers';
+
+// Wishlist alerts: people follow a game and get a message when it drops below a TL
+// price or reaches a discount. Managed through /api/wishlist, checked on every cron run.
+// Tables: supabase/migrations/0008_wishlist.sql
+
+export interface Subscription {
+    id: number;
+    game_id: string | null;
+    game_title: string;
+    target_price: number | null;
+    min_discount: number | null;
+    channel: string;
+    contact: string;
+    active: boolean;
+    created_at: string;
+}
+
+export interface SubscriptionInput {
+    gameTitle: string;
+    gameId?: string;
+    targetPrice?: number;
+    minDiscount?: number;
+    channel: string;
+    contact: string;
+}
+
+// A channel alerts can be sent through (see notifiers/)
+export interface Notifier {
+    id: string;
+    isConfigured(): boolean;
+    send(contact: string, subject: string, text: string): Promise<void>;
+}
+
+export interface WishlistMatch {
+    subscription: Subscription;
+    deal: Deal;
+    priceTL: number | null;
+}
+
+// Everything except the cancel token, which only the subscriber gets back
+const PUBLIC_COLUMNS = 'id, game_id, game_title, target_price, min_discount, channel, contact, active, created_at';
+
+export async function listSubscriptions(
+    supabaseAdmin: SupabaseClient,
+    includeCancelled = false
+): Promise<{ subscriptions: Subscription[]; error?: string }> {
+    let query = supabaseAdmin
+        .from('wishlist_subscriptions')
+        .select(PUBLIC_COLUMNS)
+        .order('created_at', { ascending: false });
+    if (!includeCancelled) query = query.eq('active', true);
+
+    const { data, error } = await query;
+    return { subscriptions: data || [], error: error?.message };
+}
+
+export async function addSubscription(
+    supabaseAdmin: SupabaseClient,
+    input: SubscriptionInput
+): Promise<{ subscription?: Subscription; cancelToken?: string; error?: string }> {
+    const cancelToken = randomUUID();
+    const { data, error } = await supabaseAdmin
+        .from('wishlist_subscriptions')
+        .insert({
+            game_id: input.gameId || null,
+            game_title: input.gameTitle.trim(),
+            target_price: input.targetPrice ?? null,
+            min_discount: input.minDiscount ?? null,
+            channel: input.channel,
+            contact: input.contact.trim(),
+            cancel_token: cancelToken
+        })
+        .select(PUBLIC_COLUMNS)
+        .single();
+
+    return data ? { subscription: data, cancelToken } : { error: error?.message };
+}
+
+// Cancelled rows are kept so their alert history stays readable
+export async function cancelSubscription(
+    supabaseAdmin: SupabaseClient,
+    by: { id: number } | { token: string }
+): Promise<{ cancelled: number; error?: string }> {
+    const query = supabaseAdmin.from('wishlist_subscriptions').update({ active: false });
+    const { data, error } = await ('id' in by ? query.eq('id', by.id) : query.eq('cancel_token', by.token))
+        .eq('active', true)
+        .select('id');
+    return { cancelled: data?.length || 0, error: error?.message };
+}
+
+// Validate a create request, returning an error message for bad input
+export const parseSubscriptionInput = (body: any, channels: string[]): SubscriptionInput | string => {
+    if (!body || typeof body.gameTitle !== 'string' || !body.gameTitle.trim()) {
+        return 'gameTitle is required';
+    }
+    if (body.gameId !== undefined && (typeof body.gameId !== 'string' || !/^(steam|gog|epic|itad):\S+$/.test(body.gameId))) {
+        return 'gameId must look like steam:<appid>, gog:<id>, epic:<namespace> or itad:<id>';
+    }
+    if (body.targetPrice === undefined && body.minDiscount === undefined) {
+        return 'targetPrice or minDiscount is required';
+    }
+    if (body.targetPrice !== undefined && !(typeof body.targetPrice === 'number' && body.targetPrice >= 0)) {
+        return 'targetPrice must be a non-negative number (TL)';
+    }
+    if (body.minDiscount !== undefined &&
+        !(Number.isInteger(body.minDiscount) && body.minDiscount > 0 && body.minDiscount <= 100)) {
+        return 'minDiscount must be an integer between 1 and 100';
+    }
+    if (!channels.includes(body.channel)) {
+        return `channel must be one of: ${channels.join(', ') || '(none configured)'}`;
+    }
+    if (typeof body.contact !== 'string' || !body.contact.trim()) {
+        return 'contact is required';
+    }
+    if (body.channel === 'email' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.contact.trim())) {
+        return 'contact must be an email address';
+    }
+
+    return {
+        gameTitle: body.gameTitle,
+        gameId: body.gameId,
+        targetPrice: body.targetPrice,
+        minDiscount: body.minDiscount,
+        channel: body.channel,
+        contact: body.contact
+    };
+};
+
+// Sale price in TL, or null when there is no rate to convert it with
+const priceInTL = (deal: Deal, rates: RateTable): number | null => {
+    const price = convert(salePrice(deal), 'TRY', rates);
+    return price.currency === 'TRY' ? price.amount : null;
+};
+
+const meetsTarget = (subscription: Subscription, deal: Deal, priceTL: number | null): boolean => {
+    if (subscription.min_discount !== null && deal.discount_percent < subscription.min_discount) return false;
+    if (subscription.target_price !== null && (priceTL === null || priceTL > subscription.target_price)) return false;
+    return true;
+};
+
+// Cheapest qualifying deal per subscription, across every store that has the game
+export const matchSubscriptions = (
+    subscriptions: Subscription[],
+    deals: Deal[],
+    rates: RateTable
+): WishlistMatch[] => {
+    const identities = deals.map(deal => ({ deal, identity: getIdentity(deal) }));
+    const matches: WishlistMatch[] = [];
+
+    for (const subscription of subscriptions) {
+        let best: WishlistMatch | undefined;
+        for (const { deal, identity } of identities) {
+            if (!matchesPost(identity, subscription)) continue;
+            const priceTL = priceInTL(deal, rates);
+            if (!meetsTarget(subscription, deal, priceTL)) continue;
+            if (!best || (priceTL ?? Infinity) < (best.priceTL ?? Infinity)) {
+                best = { subscription, deal, priceTL };
+            }
+        }
+        if (best) matches.push(best);
+    }
+
+    return matches;
+};
+
+// Matches whose subscription was already told about this deal at this price
+export async function filterSentAlerts(
+    supabaseAdmin: SupabaseClient,
+    matches: WishlistMatch[]
+): Promise<{ matches: WishlistMatch[]; error?: string }> {
+    if (matches.length === 0) return { matches };
+
+    const { data, error } = await supabaseAdmin
+        .from('wishlist_alerts')
+        .select('subscription_id, deal_id, price')
+        .in('subscription_id', matches.map(m => m.subscription.id));
+    if (error) return { matches: [], error: error.message };
+
+    const sent = new Set((data || []).map(a => `${a.subscription_id}|${a.deal_id}|${Number(a.price)}`));
+    return {
+        matches: matches.filter(m => !sent.has(`${m.subscription.id}|${m.deal.id}|${m.deal.final_price}`))
+    };
+}
+
+export async function recordAlert(
+    supabaseAdmin: SupabaseClient,
+    match: WishlistMatch
+): Promise<{ error?: string }> {
+    const { error } = await supabaseAdmin.from('wishlist_alerts').insert({
+        subscription_id: match.subscription.id,
+        deal_id: match.deal.id,
+        price: match.deal.final_price
+    });
+    return { error: error?.message };
+}
+
+export const formatAlert = (match: WishlistMatch): { subject: string; text: string } => {
+    const { deal, priceTL, subscription } = match;
+    const platformEmoji = getProviderByPlatform(deal.platform)?.emoji || '🎮';
+    const price = deal.final_price === 0
+        ? 'ÜCRETSİZ'
+        : priceTL !== null && deal.currency !== 'TRY'
+            ? formatMoney({ amount: priceTL, currency: 'TRY' }, true)
+            : formatMoney(salePrice(deal));
+
+    return {
+        subject: `${deal.name} indirimde: ${price}`,
+        text: `🔔 Takip ettiğin oyun indirimde!
+
+🎮 ${deal.name}
+📉 %${deal.discount_percent} İndirim
+🏷️ ${price}
+${platformEmoji} ${deal.platform}
+🔗 ${deal.url}
+
+Bu bildirimi "${subscription.game_title}" takibin için aldın.`
+    };
+};
+
+export interface AlertResult {
+    subscriptionId: number;
+    game: string;
+    channel: string;
+    sent: boolean;
+    error?: string;
+}
+
+// Check fresh deals against active subscriptions and notify. A failed send isn't
+// recorded, so the next run tries again.
+export async function sendWishlistAlerts(
+    supabaseAdmin: SupabaseClient,
+    deals: Deal[],
+    rates: RateTable,
+    notifiers: Notifier[],
+    dryRun = false
+): Promise<{ results: AlertResult[]; error?: string }> {
+    const { subscriptions, error: listError } = await listSubscriptions(supabaseAdmin);
+    if (listError) return { results: [], error: listError };
+
+    const { matches, error: sentError } = await filterSentAlerts(
+        supabaseAdmin,
+        matchSubscriptions(subscriptions, deals, rates)
+    );
+    if (sentError) return { results: [], error: sentError };
+
+    const results: AlertResult[] = [];
+    for (const match of matches) {
+        const { subscription, deal } = match;
+        const result = { subscriptionId: subscription.id, game: deal.name, channel: subscription.channel };
+
+        const notifier = notifiers.find(n => n.id === subscription.channel);
+        if (!notifier) {
+            results.push({ ...result, sent: false, error: 'channel not configured' });
+            continue;
+        }
+        if (dryRun) {
+            results.push({ ...result, sent: false });
+            continue;
+        }
+
+        try {
+            const { subject, text } = formatAlert(match);
+            await notifier.send(subscription.contact, subject, text);
+            const { error } = await recordAlert(supabaseAdmin, match);
+            results.push({ ...result, sent: true, error });
+        } catch (err: any) {
+            results.push({ ...result, sent: false, error: err.message || String(err) });
+        }
+    }
+
+    return { results };
+}
@@ -0,0 +1,71 @@
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// Local stand-in for an external API. Tests point a *_API_URL / *_SERVICE variable at
+// server.url, answer by path and check what the code sent.
+
+export interface ReceivedRequest {
+    method: string;
+    path: string;                           // Path with query string
+    headers: IncomingMessage['headers'];
+    body: Buffer;
+}
+
+export interface MockResponse {
+    status?: number;
+    json?: unknown;
+    body?: string | Buffer;
+    headers?: Record<string, string>;
+}
+
+type Handler = (req: ReceivedRequest) => MockResponse | Promise<MockResponse>;
+
+export interface MockServer {
+    url: string;
+    requests: ReceivedRequest[];
+    close(): Promise<void>;
+}
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+
+// Unhandled paths answer 404 so a wrong URL fails the test instead of hanging it
+export async function startMockServer(handler: Handler): Promise<MockServer> {
+    const requests: ReceivedRequest[] = [];
+
+    const server: Server = createServer(async (req, res) => {
+        const received: ReceivedRequest = {
+            method: req.method || 'GET',
+            path: req.url || '/',
+            headers: req.headers,
+            body: await readBody(req)
+        };
+        requests.push(received);
+
+        try {
+            const { status = 200, json, body, headers = {} } = await handler(received);
+            const payload = json === undefined ? body ?? '' : JSON.stringify(json);
+            res.writeHead(status, { ...(json === undefined ? {} : { 'Content-Type': 'application/json' }), ...headers });
+            res.end(payload);
+        } catch (e) {
+            res.writeHead(500, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: e instanceof Error ? e.message : String(e) }));
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise((resolve, reject) => server.close(err => (err ? reject(err) : resolve())))
+    };
+}
+
+export const notFound = (): MockResponse => ({ status: 404, json: { error: 'not found' } });
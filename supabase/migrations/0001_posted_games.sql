@@ -0,0 +1,11 @@
+-- Every deal the bot has posted. The cron handler reads it to avoid posting a game twice
+-- within the repost window and writes one row per published deal.
+-- The table predates these migrations, so this one is a no-op on existing projects.
+create table if not exists posted_games (
+    id bigint generated always as identity primary key,
+    app_id bigint not null,            -- Numeric part of the store deal ID
+    game_title text not null,          -- normalizeGameName() of the posted title
+    price_usd numeric not null,        -- Sale price converted to USD
+    created_at timestamptz not null default now()
+);
+create index if not exists posted_games_created_idx on posted_games (created_at desc);
@@ -0,0 +1,14 @@
+-- Manual overrides managed through /api/admin/*
+create table blocked_games (
+    id bigint generated always as identity primary key,
+    title text not null,
+    reason text,
+    expires_at timestamptz,
+    created_at timestamptz not null default now()
+);
+insert into blocked_games (title, reason) values
+    ('disco elysium', 'Oversized image'),
+    ('wavetale', 'Oversized image'),
+    ('skald', 'Posted twice due to name variations');
+
+create table pinned_deals (like blocked_games including all);
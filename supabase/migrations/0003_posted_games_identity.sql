@@ -0,0 +1,6 @@
+-- Canonical game ID (steam:<appid>, gog:<id>, ...) so reposts are matched by identity
+-- rather than title, and the platform for per-platform daily budgets
+alter table posted_games add column game_id text;
+create index posted_games_game_id_idx on posted_games (game_id);
+
+alter table posted_games add column platform text;
@@ -0,0 +1,12 @@
+-- One row per channel a post went to (or failed to go to)
+create table post_deliveries (
+    id bigint generated always as identity primary key,
+    posted_game_id bigint references posted_games (id),
+    game_id text,
+    game_title text not null,
+    channel text not null,
+    success boolean not null,
+    post_id text,
+    error text,
+    created_at timestamptz not null default now()
+);
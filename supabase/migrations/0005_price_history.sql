@@ -0,0 +1,21 @@
+-- Price snapshots for every fetched deal, one row per deal per cron run
+create table price_history (
+    id bigint generated always as identity primary key,
+    game_id text not null,
+    game_title text not null,
+    platform text not null,
+    price numeric not null,
+    currency text not null,
+    discount_percent int not null,
+    created_at timestamptz not null default now()
+);
+create index price_history_game_idx on price_history (game_id, currency, created_at);
+
+create view price_stats as
+select game_id, currency,
+    min(price) as all_time_low,
+    min(price) filter (where created_at > now() - interval '90 days') as low_90d,
+    max(created_at) filter (where discount_percent > 0) as last_sale_at,
+    min(created_at) as first_seen_at
+from price_history
+group by game_id, currency;
@@ -0,0 +1,6 @@
+-- Last good exchange rates, used when the rates API is down
+create table exchange_rates (
+    base text primary key,
+    rates jsonb not null,
+    fetched_at timestamptz not null
+);
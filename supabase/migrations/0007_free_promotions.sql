@@ -0,0 +1,16 @@
+-- Epic free-game windows and which of their three announcements went out
+create table free_promotions (
+    id bigint generated always as identity primary key,
+    deal_id text not null,
+    title text not null,
+    namespace text,
+    url text not null,
+    header_image text,
+    starts_at timestamptz not null,
+    ends_at timestamptz not null,
+    announced_upcoming_at timestamptz,
+    announced_live_at timestamptz,
+    announced_ending_at timestamptz,
+    created_at timestamptz not null default now(),
+    unique (deal_id, starts_at)
+);
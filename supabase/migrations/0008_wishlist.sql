@@ -0,0 +1,23 @@
+-- Wishlist subscriptions managed through /api/wishlist
+create table wishlist_subscriptions (
+    id bigint generated always as identity primary key,
+    game_id text,                      -- canonical ID (steam:<appid>, ...) if known
+    game_title text not null,
+    target_price numeric,              -- TL
+    min_discount int,
+    channel text not null,             -- notifier id: telegram, email
+    contact text not null,             -- Telegram chat ID or email address
+    cancel_token text not null unique,
+    active boolean not null default true,
+    created_at timestamptz not null default now()
+);
+
+-- One row per alert sent; the unique key stops the same sale being announced twice
+create table wishlist_alerts (
+    id bigint generated always as identity primary key,
+    subscription_id bigint not null references wishlist_subscriptions (id),
+    deal_id text not null,
+    price numeric not null,
+    created_at timestamptz not null default now(),
+    unique (subscription_id, deal_id, price)
+);
@@ -0,0 +1,18 @@
+-- One row per cron run, read by /api/runs for the health summary
+create table cron_runs (
+    id bigint generated always as identity primary key,
+    started_at timestamptz not null,
+    mode text not null default 'single',   -- single, top5, weekly, free
+    duration_ms int not null,
+    status text not null,                  -- posted, nothing_new, skipped, rate_limited, failed
+    reason text,                           -- schedule reason or error message
+    providers jsonb not null,              -- [{ id, platform, deals, durationMs, error }]
+    candidate_count int not null default 0,
+    skip_reasons jsonb not null default '{}',
+    posted jsonb not null default '[]',
+    deliveries jsonb not null default '[]',
+    announcements int not null default 0,
+    alerts int not null default 0,
+    created_at timestamptz not null default now()
+);
+create index cron_runs_started_idx on cron_runs (started_at desc);
@@ -0,0 +1,26 @@
+-- Posting accounts (see src/lib/accounts.ts). Existing rows belong to the default "tr" account.
+alter table posted_games add column account text not null default 'tr';
+create index posted_games_account_idx on posted_games (account, created_at);
+
+-- Every account announces free games on its own
+alter table free_promotions add column account text not null default 'tr';
+alter table free_promotions drop constraint free_promotions_deal_id_starts_at_key;
+alter table free_promotions add unique (account, deal_id, starts_at);
+
+-- Store prices differ per region even in the same currency
+alter table price_history add column region text not null default 'TR';
+drop index price_history_game_idx;
+create index price_history_game_idx on price_history (game_id, region, currency, created_at);
+
+drop view price_stats;
+create view price_stats as
+select game_id, region, currency,
+    min(price) as all_time_low,
+    min(price) filter (where created_at > now() - interval '90 days') as low_90d,
+    max(created_at) filter (where discount_percent > 0) as last_sale_at,
+    min(created_at) as first_seen_at
+from price_history
+group by game_id, region, currency;
+
+alter table cron_runs add column account text not null default 'tr';
+create index cron_runs_account_idx on cron_runs (account, started_at desc);
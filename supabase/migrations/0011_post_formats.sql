@@ -0,0 +1,3 @@
+-- Deals posted in a thread or digest (top5, weekly, free; see src/lib/formats.ts) stay out
+-- of the schedule's daily, per-platform and gap budgets
+alter table posted_games add column format text not null default 'single';
@@ -0,0 +1,16 @@
+-- Engagement feedback (see src/lib/engagement.ts). Single posts keep their tweet ID so
+-- /api/metrics can collect likes, reposts, replies and link clicks for them.
+alter table posted_games add column tweet_id text;
+alter table posted_games add column discount_percent int;
+
+-- Latest metrics per posted game, overwritten on every collection
+create table post_metrics (
+    posted_game_id bigint primary key references posted_games (id),
+    likes int not null default 0,
+    reposts int not null default 0,
+    replies int not null default 0,
+    quotes int not null default 0,
+    impressions int,
+    link_clicks int,                   -- Twitter only reports these for the first 30 days
+    collected_at timestamptz not null default now()
+);
@@ -0,0 +1,15 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Tests live next to the module they cover (src/lib/*.test.ts, src/app/**/route.test.ts)
+export default defineConfig({
+    // Next compiles JSX with the automatic runtime (card.tsx doesn't import React)
+    esbuild: { jsx: 'automatic' },
+    resolve: {
+        alias: { '@': path.resolve(__dirname, 'src') }
+    },
+    test: {
+        include: ['src/**/*.test.ts'],
+        environment: 'node'
+    }
+});